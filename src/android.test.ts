@@ -0,0 +1,167 @@
+import { test, expect, describe } from "vitest";
+import { generateAndroidResources, generateComposeTokens } from "./android";
+import { parseDesignTokens } from "./tokens";
+import { parseTokenResolver } from "./resolver";
+import type { TreeNode } from "./store";
+import type { TreeNodeMeta } from "./state.svelte";
+
+const nodesToMap = (nodes: TreeNode<TreeNodeMeta>[]) => {
+  const map = new Map<string, TreeNode<TreeNodeMeta>>();
+  for (const node of nodes) {
+    map.set(node.nodeId, node);
+  }
+  return map;
+};
+
+const parseExampleTokens = () => {
+  const parsed = parseDesignTokens({
+    color: {
+      $type: "color",
+      red: {
+        500: { $value: { colorSpace: "srgb", components: [1, 0, 0] } },
+      },
+      overlay: {
+        $value: { colorSpace: "srgb", components: [0, 0, 0], alpha: 0.5 },
+      },
+    },
+    space: {
+      $type: "dimension",
+      md: { $value: { value: 1, unit: "rem" } },
+    },
+    typography: {
+      body: {
+        $type: "typography",
+        $value: {
+          fontFamily: ["Inter", "sans-serif"],
+          fontSize: { value: 16, unit: "px" },
+          fontWeight: "bold",
+          letterSpacing: { value: 0, unit: "px" },
+          lineHeight: 1.5,
+        },
+      },
+    },
+  });
+  return nodesToMap(parsed.nodes);
+};
+
+const parseThemeResolver = async () => {
+  const result = await parseTokenResolver({
+    version: "2025.10",
+    resolutionOrder: [
+      {
+        type: "modifier",
+        name: "Theme",
+        default: "light",
+        contexts: {
+          light: [
+            {
+              surface: {
+                $type: "color",
+                $value: { colorSpace: "srgb", components: [1, 1, 1] },
+              },
+            },
+          ],
+          dark: [
+            {
+              surface: {
+                $type: "color",
+                $value: { colorSpace: "srgb", components: [0, 0, 0] },
+              },
+            },
+          ],
+        },
+      },
+    ],
+  });
+  expect(result.errors).toHaveLength(0);
+  return nodesToMap(result.nodes);
+};
+
+describe("generateAndroidResources", () => {
+  test("generates colors and dimens resources", () => {
+    const result = generateAndroidResources(parseExampleTokens());
+    expect(result.errors).toEqual([]);
+    expect(result.files).toEqual({
+      "res/values/colors.xml": [
+        '<?xml version="1.0" encoding="utf-8"?>',
+        "<resources>",
+        '    <color name="color_red_500">#FFFF0000</color>',
+        '    <color name="color_overlay">#80000000</color>',
+        "</resources>",
+      ].join("\n"),
+      "res/values/dimens.xml": [
+        '<?xml version="1.0" encoding="utf-8"?>',
+        "<resources>",
+        '    <dimen name="space_md">16dp</dimen>',
+        "</resources>",
+      ].join("\n"),
+    });
+  });
+
+  test("generates values-night colors from dark context", async () => {
+    const result = generateAndroidResources(await parseThemeResolver());
+    expect(result.files["res/values/colors.xml"]).toContain(
+      '<color name="surface">#FFFFFFFF</color>',
+    );
+    expect(result.files["res/values-night/colors.xml"]).toContain(
+      '<color name="surface">#FF000000</color>',
+    );
+  });
+
+  test("reports name collisions", () => {
+    const parsed = parseDesignTokens({
+      "brand-primary": {
+        $type: "color",
+        $value: { colorSpace: "srgb", components: [1, 0, 0] },
+      },
+      brand: {
+        primary: {
+          $type: "color",
+          $value: { colorSpace: "srgb", components: [0, 0, 1] },
+        },
+      },
+    });
+    const result = generateAndroidResources(nodesToMap(parsed.nodes));
+    expect(result.errors).toEqual([
+      '"brand.primary" and "brand-primary" are both exported as "brand_primary"',
+    ]);
+  });
+});
+
+describe("generateComposeTokens", () => {
+  test("generates compose tokens object", () => {
+    const result = generateComposeTokens(parseExampleTokens());
+    expect(result.errors).toEqual([]);
+    expect(result.files["Tokens.kt"]).toContain(
+      [
+        "object Tokens {",
+        "    val colorRed500 = Color(0xFFFF0000)",
+        "    val colorOverlay = Color(0x80000000)",
+        "    val spaceMd = 16.dp",
+        "    val typographyBody = TextStyle(",
+        "        fontFamily = FontFamily.SansSerif,",
+        "        fontSize = 16.sp,",
+        "        fontWeight = FontWeight(700),",
+        "        lineHeight = 24.sp,",
+        "        letterSpacing = 0.sp,",
+        "    )",
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  test("generates dark tokens object from dark context", async () => {
+    const result = generateComposeTokens(await parseThemeResolver());
+    expect(result.files["Tokens.kt"]).toContain(
+      [
+        "object Tokens {",
+        "    val surface = Color(0xFFFFFFFF)",
+        "}",
+        "",
+        "object DarkTokens {",
+        "    val surface = Color(0xFF000000)",
+        "}",
+      ].join("\n"),
+    );
+  });
+});
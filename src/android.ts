@@ -0,0 +1,245 @@
+import { camelCase, snakeCase } from "change-case";
+import type { TreeNode } from "./store";
+import type { TreeNodeMeta } from "./state.svelte";
+import {
+  toNumericFontWeight,
+  type ColorValue,
+  type DimensionValue,
+  type Value,
+} from "./schema";
+import { convertColor } from "./color";
+import { getDarkModeInputs, resolveDesignTokens } from "./resolver";
+import { resolveValues, toNumber, type ResolvedToken } from "./native";
+
+export type AndroidOptions = {
+  /** dp in one rem */
+  remBase?: number;
+};
+
+export type AndroidResult = {
+  /** file path -> content */
+  files: Record<string, string>;
+  /** identifier collisions */
+  errors: string[];
+};
+
+const indent = "    ";
+
+/**
+ * Resolve tokens with default contexts and tokens which differ in dark context
+ */
+const resolveThemes = (nodes: Map<string, TreeNode<TreeNodeMeta>>) => {
+  const light = resolveValues(resolveDesignTokens(nodes));
+  const dark = new Map<string, ResolvedToken>();
+  const darkInputs = getDarkModeInputs(nodes);
+  if (darkInputs) {
+    for (const [key, token] of resolveValues(
+      resolveDesignTokens(nodes, darkInputs),
+    )) {
+      if (
+        JSON.stringify(token.value) !== JSON.stringify(light.get(key)?.value)
+      ) {
+        dark.set(key, token);
+      }
+    }
+  }
+  return { light, dark };
+};
+
+/**
+ * Track identifiers generated from token paths and report collisions
+ */
+const createNameRegistry = (
+  errors: string[],
+  toName: (path: string[]) => string,
+) => {
+  const pathByName = new Map<string, string>();
+  return (path: string[]) => {
+    const name = toName(path);
+    const key = path.join(".");
+    const existing = pathByName.get(name);
+    if (existing !== undefined && existing !== key) {
+      errors.push(`"${key}" and "${existing}" are both exported as "${name}"`);
+    }
+    pathByName.set(name, key);
+    return name;
+  };
+};
+
+const toResourceName = (path: string[]) => {
+  const name = snakeCase(path.join(" "));
+  return /^[a-z]/.test(name) ? name : `token_${name}`;
+};
+
+const toKotlinName = (path: string[]) => {
+  const name = camelCase(path.join(" "), { mergeAmbiguousCharacters: true });
+  return /^[a-z]/i.test(name) ? name : `token${name}`;
+};
+
+/**
+ * Convert color to android ARGB hex digits
+ */
+const toArgbHex = (value: ColorValue) => {
+  const color = convertColor(value, "srgb");
+  const channels = [
+    color.alpha ?? 1,
+    ...color.components.map((component) =>
+      component === "none" ? 0 : component,
+    ),
+  ];
+  return channels
+    .map((channel) =>
+      Math.round(Math.min(Math.max(channel, 0), 1) * 255)
+        .toString(16)
+        .padStart(2, "0"),
+    )
+    .join("")
+    .toUpperCase();
+};
+
+const toDp = (value: DimensionValue, remBase: number) => {
+  return toNumber(value.unit === "rem" ? value.value * remBase : value.value);
+};
+
+const toXml = (lines: string[]) => {
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    "<resources>",
+    ...lines,
+    "</resources>",
+  ].join("\n");
+};
+
+/**
+ * Generate android colors.xml and dimens.xml resources,
+ * colors overridden in dark modifier context go to values-night
+ */
+export const generateAndroidResources = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  options: AndroidOptions = {},
+): AndroidResult => {
+  const { remBase = 16 } = options;
+  const errors: string[] = [];
+  const getColorName = createNameRegistry(errors, toResourceName);
+  const getDimenName = createNameRegistry(errors, toResourceName);
+  const { light, dark } = resolveThemes(nodes);
+  const colors: string[] = [];
+  const dimens: string[] = [];
+  const nightColors: string[] = [];
+  for (const [key, { path, value }] of light) {
+    if (value.type === "color") {
+      const name = getColorName(path);
+      colors.push(
+        `${indent}<color name="${name}">#${toArgbHex(value.value)}</color>`,
+      );
+      const darkValue = dark.get(key)?.value;
+      if (darkValue?.type === "color") {
+        nightColors.push(
+          `${indent}<color name="${name}">#${toArgbHex(darkValue.value)}</color>`,
+        );
+      }
+    }
+    if (value.type === "dimension") {
+      dimens.push(
+        `${indent}<dimen name="${getDimenName(path)}">${toDp(value.value, remBase)}dp</dimen>`,
+      );
+    }
+  }
+  const files: Record<string, string> = {
+    "res/values/colors.xml": toXml(colors),
+    "res/values/dimens.xml": toXml(dimens),
+  };
+  if (nightColors.length > 0) {
+    files["res/values-night/colors.xml"] = toXml(nightColors);
+  }
+  return { files, errors };
+};
+
+const genericFontFamilies: Record<string, string> = {
+  "sans-serif": "FontFamily.SansSerif",
+  "system-ui": "FontFamily.SansSerif",
+  serif: "FontFamily.Serif",
+  monospace: "FontFamily.Monospace",
+  cursive: "FontFamily.Cursive",
+};
+
+const toComposeValue = (
+  value: Value,
+  remBase: number,
+): undefined | string[] => {
+  switch (value.type) {
+    case "color":
+      return [`Color(0x${toArgbHex(value.value)})`];
+    case "dimension":
+      return [`${toDp(value.value, remBase)}.dp`];
+    case "typography": {
+      const { fontFamily, fontSize, fontWeight, letterSpacing, lineHeight } =
+        value.value;
+      const size = Number(toDp(fontSize, remBase));
+      const families = Array.isArray(fontFamily) ? fontFamily : [fontFamily];
+      const generic = families
+        .map((family) => genericFontFamilies[family])
+        .find(Boolean);
+      return [
+        "TextStyle(",
+        ...(generic ? [`${indent}fontFamily = ${generic},`] : []),
+        `${indent}fontSize = ${toNumber(size)}.sp,`,
+        `${indent}fontWeight = FontWeight(${toNumericFontWeight(fontWeight)}),`,
+        `${indent}lineHeight = ${toNumber(size * lineHeight)}.sp,`,
+        `${indent}letterSpacing = ${toDp(letterSpacing, remBase)}.sp,`,
+        ")",
+      ];
+    }
+  }
+};
+
+const addComposeProperty = (lines: string[], name: string, value: string[]) => {
+  const [first, ...rest] = value;
+  lines.push(`${indent}val ${name} = ${first}`);
+  lines.push(...rest.map((line) => `${indent}${line}`));
+};
+
+/**
+ * Generate jetpack compose object with colors, dimensions and text styles,
+ * colors overridden in dark modifier context go to DarkTokens object
+ */
+export const generateComposeTokens = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  options: AndroidOptions = {},
+): AndroidResult => {
+  const { remBase = 16 } = options;
+  const errors: string[] = [];
+  const getName = createNameRegistry(errors, toKotlinName);
+  const { light, dark } = resolveThemes(nodes);
+  const tokens: string[] = [];
+  const darkTokens: string[] = [];
+  for (const [key, { path, value }] of light) {
+    const composeValue = toComposeValue(value, remBase);
+    if (!composeValue) {
+      continue;
+    }
+    const name = getName(path);
+    addComposeProperty(tokens, name, composeValue);
+    const darkValue = dark.get(key)?.value;
+    const darkComposeValue = darkValue && toComposeValue(darkValue, remBase);
+    if (darkComposeValue) {
+      addComposeProperty(darkTokens, name, darkComposeValue);
+    }
+  }
+  const lines = [
+    "import androidx.compose.ui.graphics.Color",
+    "import androidx.compose.ui.text.TextStyle",
+    "import androidx.compose.ui.text.font.FontFamily",
+    "import androidx.compose.ui.text.font.FontWeight",
+    "import androidx.compose.ui.unit.dp",
+    "import androidx.compose.ui.unit.sp",
+    "",
+    "object Tokens {",
+    ...tokens,
+    "}",
+  ];
+  if (darkTokens.length > 0) {
+    lines.push("", "object DarkTokens {", ...darkTokens, "}");
+  }
+  return { files: { "Tokens.kt": lines.join("\n") }, errors };
+};
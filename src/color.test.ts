@@ -1,5 +1,5 @@
 import { test, expect, describe } from "vitest";
-import { parseColor } from "./color";
+import { convertColor, getColorGamut, getContrast, parseColor } from "./color";
 
 describe("parseColor", () => {
   test("parses hex color", () => {
@@ -81,3 +81,73 @@ describe("parseColor", () => {
     });
   });
 });
+
+describe("convertColor", () => {
+  test("converts color into another color space", () => {
+    const color = convertColor(
+      { colorSpace: "srgb", components: [1, 0, 0], alpha: 0.5 },
+      "display-p3",
+    );
+    expect(color.colorSpace).toBe("display-p3");
+    expect(color.alpha).toBe(0.5);
+    expect(color.components[0]).toBeCloseTo(0.9175, 3);
+  });
+
+  test("maps out of gamut colors into rgb space", () => {
+    const color = convertColor(
+      { colorSpace: "oklch", components: [0.7, 0.3, 30] },
+      "srgb",
+    );
+    for (const component of color.components) {
+      expect(component).toBeGreaterThanOrEqual(0);
+      expect(component).toBeLessThanOrEqual(1);
+    }
+  });
+});
+
+describe("getContrast", () => {
+  const black = { colorSpace: "srgb" as const, components: [0, 0, 0] };
+  const white = { colorSpace: "srgb" as const, components: [1, 1, 1] };
+
+  test("computes WCAG ratio and APCA lightness contrast", () => {
+    const { wcag, apca } = getContrast(black, white);
+    expect(wcag).toBeCloseTo(21);
+    expect(apca).toBeCloseTo(106.04, 1);
+    // light text on dark background has negative polarity
+    expect(getContrast(white, black).apca).toBeCloseTo(-107.88, 1);
+  });
+
+  test("converts any color space and treats none as zero", () => {
+    const oklchWhite = {
+      colorSpace: "oklch" as const,
+      components: [1, 0, "none" as const],
+    };
+    expect(getContrast(black, oklchWhite).wcag).toBeCloseTo(21);
+  });
+
+  test("composites translucent colors over background", () => {
+    const translucent = { ...black, alpha: 0.5 };
+    const gray = parseColor("#808080");
+    expect(getContrast(translucent, white).wcag).toBeCloseTo(
+      getContrast(gray, white).wcag,
+      1,
+    );
+    // translucent background is composited over white
+    expect(getContrast(black, { ...black, alpha: 0 }).wcag).toBeCloseTo(21);
+  });
+});
+
+describe("getColorGamut", () => {
+  test("detects the smallest gamut containing color", () => {
+    expect(getColorGamut(parseColor("#ff0000"))).toBe("srgb");
+    expect(getColorGamut(parseColor("hsl(120 100% 50%)"))).toBe("srgb");
+    expect(getColorGamut(parseColor("color(display-p3 0 1 0)"))).toBe("p3");
+    expect(getColorGamut(parseColor("color(rec2020 0 1 0)"))).toBe(
+      "out-of-gamut",
+    );
+  });
+
+  test("treats none components as zero", () => {
+    expect(getColorGamut(parseColor("oklch(0.5 0 none)"))).toBe("srgb");
+  });
+});
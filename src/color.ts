@@ -107,3 +107,106 @@ export const serializeColor = (colorValue: ColorValue): string => {
     return "transparent";
   }
 };
+
+// colorjs.io represents missing components as null
+const toColorjs = (colorValue: ColorValue) => {
+  return {
+    spaceId: spaceIdByColorSpace[colorValue.colorSpace],
+    coords: colorValue.components.map((component) =>
+      component === "none" ? null : component,
+    ) as [number, number, number],
+    alpha: colorValue.alpha,
+  };
+};
+
+/**
+ * Converts a design tokens color value into another color space
+ * mapping it into the gamut of rgb spaces
+ */
+export const convertColor = (
+  colorValue: ColorValue,
+  colorSpace: ColorValue["colorSpace"],
+): ColorValue => {
+  const color = colorjs.toGamut(
+    colorjs.to(toColorjs(colorValue), spaceIdByColorSpace[colorSpace]),
+  );
+  const result: ColorValue = {
+    colorSpace,
+    components: color.coords.map((value) => value ?? 0),
+  };
+  if (colorValue.alpha !== undefined && colorValue.alpha !== 1) {
+    result.alpha = colorValue.alpha;
+  }
+  return result;
+};
+
+// blend translucent color over backdrop in srgb like browsers do
+const blendOver = (colorValue: ColorValue, backdrop: number[]) => {
+  const alpha = colorValue.alpha ?? 1;
+  const { components } = convertColor(colorValue, "srgb");
+  const coords = components.map(
+    (value, index) => Number(value) * alpha + backdrop[index] * (1 - alpha),
+  );
+  return { spaceId: "srgb", coords: coords as [number, number, number] };
+};
+
+/**
+ * WCAG 2.x contrast ratio and APCA lightness contrast (Lc) of text color
+ * over background, translucent background is composited over white first
+ */
+export const getContrast = (
+  foreground: ColorValue,
+  background: ColorValue,
+): { wcag: number; apca: number } => {
+  const backgroundColor = blendOver(background, [1, 1, 1]);
+  const foregroundColor = blendOver(foreground, backgroundColor.coords);
+  return {
+    wcag: colorjs.contrastWCAG21(foregroundColor, backgroundColor),
+    apca: colorjs.contrastAPCA(backgroundColor, foregroundColor),
+  };
+};
+
+/**
+ * Whether color can be displayed in rgb space without gamut mapping
+ */
+export const isInGamut = (
+  colorValue: ColorValue,
+  colorSpace: "srgb" | "display-p3",
+): boolean => {
+  return colorjs.inGamut(
+    toColorjs(colorValue),
+    spaceIdByColorSpace[colorSpace],
+  );
+};
+
+export type ColorGamut = "srgb" | "p3" | "out-of-gamut";
+
+export const colorGamutLabels: Record<ColorGamut, string> = {
+  srgb: "sRGB",
+  p3: "Display P3",
+  "out-of-gamut": "Out of P3 gamut",
+};
+
+/**
+ * Smallest rgb gamut which contains the color
+ */
+export const getColorGamut = (colorValue: ColorValue): ColorGamut => {
+  if (isInGamut(colorValue, "srgb")) {
+    return "srgb";
+  }
+  if (isInGamut(colorValue, "display-p3")) {
+    return "p3";
+  }
+  return "out-of-gamut";
+};
+
+/**
+ * Perceptual difference of two colors in oklab (ΔE OK),
+ * around 0.02 is barely noticeable
+ */
+export const getColorDifference = (
+  first: ColorValue,
+  second: ColorValue,
+): number => {
+  return colorjs.deltaEOK(toColorjs(first), toColorjs(second));
+};
@@ -0,0 +1,159 @@
+import { test, expect, describe } from "vitest";
+import {
+  buildContrastMatrix,
+  contrastExtensionKey,
+  getApcaLevel,
+  getColorGroupPaths,
+  getContrastContexts,
+  getContrastPairings,
+  getWcagLevel,
+  lintContrast,
+  setContrastPairings,
+} from "./contrast";
+import { parseTokenResolver, resolveTokenSet } from "./resolver";
+import type { TokenMeta } from "./state.svelte";
+
+const black = { colorSpace: "srgb", components: [0, 0, 0] };
+const white = { colorSpace: "srgb", components: [1, 1, 1] };
+const gray = { colorSpace: "srgb", components: [0.6, 0.6, 0.6] };
+
+const parseNodes = async (input: unknown) => {
+  const result = await parseTokenResolver(input);
+  expect(result.errors).toEqual([]);
+  return new Map(result.nodes.map((node) => [node.nodeId, node]));
+};
+
+const themeResolver = {
+  version: "2025.10",
+  resolutionOrder: [
+    {
+      type: "set",
+      name: "Base",
+      sources: [
+        {
+          color: {
+            $type: "color",
+            text: {
+              primary: {
+                $value: black,
+                $extensions: {
+                  [contrastExtensionKey]: {
+                    pairs: [
+                      { background: "{color.background.surface}" },
+                      { background: "{color.background.missing}" },
+                    ],
+                  },
+                },
+              },
+              muted: { $value: gray },
+            },
+            background: { surface: { $value: white } },
+          },
+        },
+      ],
+    },
+    {
+      type: "modifier",
+      name: "Theme",
+      default: "Light",
+      contexts: {
+        Light: [],
+        Dark: [{ color: { background: { surface: { $value: black } } } }],
+      },
+    },
+  ],
+};
+
+describe("contrast levels", () => {
+  test("flags WCAG and APCA thresholds", () => {
+    expect(getWcagLevel(21)).toBe("AAA");
+    expect(getWcagLevel(4.5)).toBe("AA");
+    expect(getWcagLevel(3.2)).toBe("AA Large");
+    expect(getWcagLevel(2)).toBe("Fail");
+    expect(getApcaLevel(-92)).toBe("AAA");
+    expect(getApcaLevel(76)).toBe("AA");
+    expect(getApcaLevel(30)).toBe("Fail");
+  });
+});
+
+describe("buildContrastMatrix", () => {
+  test("compares every foreground with every background", async () => {
+    const nodes = await parseNodes(structuredClone(themeResolver));
+    const resolved = resolveTokenSet(nodes, undefined, { Theme: "Light" });
+    expect(getColorGroupPaths(resolved)).toEqual([
+      "color",
+      "color.background",
+      "color.text",
+    ]);
+    const matrix = buildContrastMatrix(
+      resolved,
+      "color.text",
+      "color.background",
+    );
+    expect(
+      matrix.map((row) =>
+        row.map((pair) => [pair?.foreground.meta.name, pair?.wcagLevel]),
+      ),
+    ).toEqual([[["primary", "AAA"]], [["muted", "Fail"]]]);
+    expect(matrix[0][0]?.wcag).toBeCloseTo(21);
+  });
+
+  test("lists contexts of every modifier", async () => {
+    const nodes = await parseNodes(structuredClone(themeResolver));
+    expect(getContrastContexts(nodes, undefined)).toEqual([
+      { label: "Theme / Light", inputs: { Theme: "Light" } },
+      { label: "Theme / Dark", inputs: { Theme: "Dark" } },
+    ]);
+  });
+});
+
+describe("lintContrast", () => {
+  test("checks declared pairings in every modifier context", async () => {
+    const nodes = await parseNodes(structuredClone(themeResolver));
+    expect(lintContrast(nodes)).toEqual([
+      {
+        context: "Theme / Light",
+        foreground: "color.text.primary",
+        background: "color.background.missing",
+        message: "Background color {color.background.missing} not found",
+      },
+      {
+        context: "Theme / Dark",
+        foreground: "color.text.primary",
+        background: "color.background.surface",
+        message: "Contrast 1.00:1 does not meet AA",
+      },
+      {
+        context: "Theme / Dark",
+        foreground: "color.text.primary",
+        background: "color.background.missing",
+        message: "Background color {color.background.missing} not found",
+      },
+    ]);
+  });
+
+  test("stores pairings in token extensions", () => {
+    const meta: TokenMeta = {
+      nodeType: "token",
+      name: "primary",
+      type: "color",
+      value: { colorSpace: "srgb", components: [0, 0, 0] },
+      extensions: { "com.example": true },
+    };
+    const paired = setContrastPairings(meta, [
+      { background: "{color.surface}", level: "AAA" },
+    ]);
+    expect(paired.extensions).toEqual({
+      "com.example": true,
+      [contrastExtensionKey]: {
+        pairs: [{ background: "{color.surface}", level: "AAA" }],
+      },
+    });
+    expect(getContrastPairings(paired)).toEqual([
+      { background: "{color.surface}", level: "AAA" },
+    ]);
+    expect(setContrastPairings(paired, []).extensions).toEqual({
+      "com.example": true,
+    });
+  });
+});
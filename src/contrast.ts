@@ -0,0 +1,294 @@
+import { z } from "zod";
+import type { TreeNode } from "./store";
+import {
+  getTokenPath,
+  resolveTokenValue,
+  type TokenMeta,
+  type TreeNodeMeta,
+} from "./state.svelte";
+import { resolveTokenSet } from "./resolver";
+import { getContrast } from "./color";
+import type { ColorValue } from "./schema";
+
+/** keeps declared background pairings of foreground color token */
+export const contrastExtensionKey = "dev.engramma.contrast";
+
+export type ContrastLevel = "AAA" | "AA" | "AA Large" | "Fail";
+
+// minimum WCAG 2.x ratio of every level
+const wcagThresholds: [ContrastLevel, number][] = [
+  ["AAA", 7],
+  ["AA", 4.5],
+  ["AA Large", 3],
+];
+
+// APCA Lc for body text and large text matching WCAG levels
+// https://git.apcacontrast.com/documentation/WhyAPCA
+const apcaThresholds: [ContrastLevel, number][] = [
+  ["AAA", 90],
+  ["AA", 75],
+  ["AA Large", 60],
+];
+
+const getLevel = (
+  value: number,
+  thresholds: [ContrastLevel, number][],
+): ContrastLevel => {
+  for (const [level, threshold] of thresholds) {
+    if (value >= threshold) {
+      return level;
+    }
+  }
+  return "Fail";
+};
+
+export const getWcagLevel = (ratio: number): ContrastLevel =>
+  getLevel(ratio, wcagThresholds);
+
+// polarity only tells whether text is lighter than background
+export const getApcaLevel = (lc: number): ContrastLevel =>
+  getLevel(Math.abs(lc), apcaThresholds);
+
+const levelOrder: ContrastLevel[] = ["Fail", "AA Large", "AA", "AAA"];
+
+export const meetsLevel = (level: ContrastLevel, required: ContrastLevel) =>
+  levelOrder.indexOf(level) >= levelOrder.indexOf(required);
+
+export type ContrastPair = {
+  foreground: TreeNode<TokenMeta>;
+  background: TreeNode<TokenMeta>;
+  foregroundColor: ColorValue;
+  backgroundColor: ColorValue;
+  wcag: number;
+  apca: number;
+  wcagLevel: ContrastLevel;
+  apcaLevel: ContrastLevel;
+};
+
+const isColorToken = (
+  node: TreeNode<TreeNodeMeta>,
+): node is TreeNode<TokenMeta> =>
+  node.meta.nodeType === "token" && node.meta.type === "color";
+
+const resolveColor = (
+  node: TreeNode<TokenMeta>,
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+) => {
+  try {
+    const resolved = resolveTokenValue(node, nodes);
+    return resolved.type === "color" ? resolved.value : undefined;
+  } catch {
+    // broken aliases are not compared
+    return;
+  }
+};
+
+export const getContrastPair = (
+  foreground: TreeNode<TokenMeta>,
+  background: TreeNode<TokenMeta>,
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+): undefined | ContrastPair => {
+  const foregroundColor = resolveColor(foreground, nodes);
+  const backgroundColor = resolveColor(background, nodes);
+  if (!foregroundColor || !backgroundColor) {
+    return;
+  }
+  const { wcag, apca } = getContrast(foregroundColor, backgroundColor);
+  return {
+    foreground,
+    background,
+    foregroundColor,
+    backgroundColor,
+    wcag,
+    apca,
+    wcagLevel: getWcagLevel(wcag),
+    apcaLevel: getApcaLevel(apca),
+  };
+};
+
+/**
+ * Color tokens of resolved token set under group path like "color.text"
+ */
+export const getColorTokens = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  groupPath: string,
+): TreeNode<TokenMeta>[] => {
+  const prefix = `${groupPath}.`;
+  return Array.from(nodes.values())
+    .filter(isColorToken)
+    .filter((node) =>
+      getTokenPath(node.nodeId, nodes).join(".").startsWith(prefix),
+    );
+};
+
+/**
+ * Paths of groups with color tokens in resolved token set
+ */
+export const getColorGroupPaths = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+): string[] => {
+  const paths = new Set<string>();
+  for (const node of nodes.values()) {
+    if (isColorToken(node)) {
+      const path = getTokenPath(node.nodeId, nodes).slice(0, -1);
+      for (let length = 1; length <= path.length; length += 1) {
+        paths.add(path.slice(0, length).join("."));
+      }
+    }
+  }
+  return Array.from(paths).sort();
+};
+
+/**
+ * Contrast of every foreground token (rows) over every background token
+ */
+export const buildContrastMatrix = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  foregroundPath: string,
+  backgroundPath: string,
+): (undefined | ContrastPair)[][] => {
+  const backgrounds = getColorTokens(nodes, backgroundPath);
+  return getColorTokens(nodes, foregroundPath).map((foreground) =>
+    backgrounds.map((background) =>
+      getContrastPair(foreground, background, nodes),
+    ),
+  );
+};
+
+export type ContrastContext = {
+  /** modifier and context names like "Theme / Dark" */
+  label: string;
+  inputs: Record<string, string>;
+};
+
+/**
+ * Every context of every modifier of resolver
+ * while other modifiers keep their defaults
+ */
+export const getContrastContexts = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  resolverNodeId: undefined | string,
+): ContrastContext[] => {
+  const contexts: ContrastContext[] = [];
+  for (const modifier of nodes.values()) {
+    if (
+      modifier.parentId !== resolverNodeId ||
+      modifier.meta.nodeType !== "modifier"
+    ) {
+      continue;
+    }
+    for (const context of nodes.values()) {
+      if (context.parentId === modifier.nodeId) {
+        contexts.push({
+          label: `${modifier.meta.name} / ${context.meta.name}`,
+          inputs: { [modifier.meta.name]: context.meta.name },
+        });
+      }
+    }
+  }
+  if (contexts.length === 0) {
+    contexts.push({ label: "Default", inputs: {} });
+  }
+  return contexts;
+};
+
+const pairingsSchema = z.object({
+  pairs: z.array(
+    z.object({
+      /** background token reference like "{color.background}" */
+      background: z.string(),
+      level: z.enum(["AAA", "AA", "AA Large"]).default("AA"),
+    }),
+  ),
+});
+
+export type ContrastPairing = z.infer<typeof pairingsSchema>["pairs"][number];
+
+export const getContrastPairings = (meta: TokenMeta): ContrastPairing[] => {
+  const result = pairingsSchema.safeParse(
+    meta.extensions?.[contrastExtensionKey],
+  );
+  return result.success ? result.data.pairs : [];
+};
+
+/**
+ * Replace declared pairings in token extensions,
+ * extension is removed without pairings
+ */
+export const setContrastPairings = (
+  meta: TokenMeta,
+  pairs: ContrastPairing[],
+): TokenMeta => {
+  const { [contrastExtensionKey]: _removed, ...extensions } =
+    meta.extensions ?? {};
+  if (pairs.length > 0) {
+    extensions[contrastExtensionKey] = { pairs };
+  }
+  return {
+    ...meta,
+    extensions: Object.keys(extensions).length > 0 ? extensions : undefined,
+  };
+};
+
+export type ContrastIssue = {
+  context: string;
+  foreground: string;
+  background: string;
+  message: string;
+};
+
+/**
+ * Check declared pairings in every modifier context of every resolver
+ */
+export const lintContrast = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+): ContrastIssue[] => {
+  const resolverIds = new Set<undefined | string>();
+  for (const node of nodes.values()) {
+    if (node.parentId === undefined) {
+      resolverIds.add(
+        node.meta.nodeType === "resolver" ? node.nodeId : undefined,
+      );
+    }
+  }
+  const issues: ContrastIssue[] = [];
+  for (const resolverId of resolverIds) {
+    for (const { label, inputs } of getContrastContexts(nodes, resolverId)) {
+      const resolved = resolveTokenSet(nodes, resolverId, inputs);
+      const tokensByPath = new Map<string, TreeNode<TokenMeta>>();
+      for (const node of resolved.values()) {
+        if (isColorToken(node)) {
+          tokensByPath.set(getTokenPath(node.nodeId, resolved).join("."), node);
+        }
+      }
+      for (const [foregroundPath, foreground] of tokensByPath) {
+        for (const { background, level } of getContrastPairings(
+          foreground.meta,
+        )) {
+          const backgroundPath = background.replace(/^\{|\}$/g, "");
+          const issue = {
+            context: label,
+            foreground: foregroundPath,
+            background: backgroundPath,
+          };
+          const backgroundToken = tokensByPath.get(backgroundPath);
+          const pair =
+            backgroundToken &&
+            getContrastPair(foreground, backgroundToken, resolved);
+          if (!pair) {
+            issues.push({
+              ...issue,
+              message: `Background color ${background} not found`,
+            });
+          } else if (!meetsLevel(pair.wcagLevel, level)) {
+            issues.push({
+              ...issue,
+              message: `Contrast ${pair.wcag.toFixed(2)}:1 does not meet ${level}`,
+            });
+          }
+        }
+      }
+    }
+  }
+  return issues;
+};
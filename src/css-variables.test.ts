@@ -1,6 +1,11 @@
 import { test, expect, describe } from "vitest";
-import { generateCssVariables, parseCssVariables } from "./css-variables";
+import {
+  generateCssVariables,
+  parseCssResolver,
+  parseCssVariables,
+} from "./css-variables";
 import { parseDesignTokens } from "./tokens";
+import { parseTokenResolver } from "./resolver";
 import type { TreeNode } from "./store";
 import type { TreeNodeMeta } from "./state.svelte";
 
@@ -611,6 +616,392 @@ describe("generateCssVariables", () => {
   });
 });
 
+describe("generateCssVariables color fallback", () => {
+  const parseWideGamutTokens = () => {
+    const parsed = parseDesignTokens({
+      color: {
+        $type: "color",
+        red: { $value: { colorSpace: "srgb", components: [1, 0, 0] } },
+        green: {
+          $value: { colorSpace: "display-p3", components: [0, 1, 0] },
+        },
+      },
+    });
+    return nodesToMap(parsed.nodes);
+  };
+
+  test("keeps wide gamut colors as is by default", () => {
+    const css = generateCssVariables(parseWideGamutTokens());
+    expect(css).toBe(
+      [
+        ":root {",
+        "  --color-red: rgb(100% 0% 0%);",
+        "  --color-green: color(display-p3 0 1 0);",
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  test("moves wide gamut values into supports block", () => {
+    const css = generateCssVariables(parseWideGamutTokens(), {
+      colorFallback: "supports",
+    });
+    expect(css).toBe(
+      [
+        ":root {",
+        "  --color-red: rgb(100% 0% 0%);",
+        "  --color-green: rgb(0% 99% 16%);",
+        "}",
+        "",
+        "@supports (color: color(display-p3 0 0 0)) {",
+        "  :root {",
+        "    --color-green: color(display-p3 0 1 0);",
+        "  }",
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  test("moves wide gamut values into color-gamut media query", () => {
+    const css = generateCssVariables(parseWideGamutTokens(), {
+      colorFallback: "media",
+    });
+    expect(css).toBe(
+      [
+        ":root {",
+        "  --color-red: rgb(100% 0% 0%);",
+        "  --color-green: rgb(0% 99% 16%);",
+        "}",
+        "",
+        "@media (color-gamut: p3) {",
+        "  :root {",
+        "    --color-green: color(display-p3 0 1 0);",
+        "  }",
+        "}",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("generateCssVariables composite color fallback", () => {
+  const green = { colorSpace: "display-p3", components: [0, 1, 0] };
+  const parseCompositeTokens = () => {
+    const parsed = parseDesignTokens({
+      color: {
+        $type: "color",
+        accent: { $value: green },
+      },
+      shadow: {
+        $type: "shadow",
+        glow: {
+          $value: {
+            color: green,
+            offsetX: { value: 0, unit: "px" },
+            offsetY: { value: 0, unit: "px" },
+            blur: { value: 4, unit: "px" },
+            spread: { value: 0, unit: "px" },
+          },
+        },
+        aliased: {
+          $value: {
+            color: "{color.accent}",
+            offsetX: { value: 0, unit: "px" },
+            offsetY: { value: 0, unit: "px" },
+            blur: { value: 4, unit: "px" },
+            spread: { value: 0, unit: "px" },
+          },
+        },
+      },
+      gradient: {
+        $type: "gradient",
+        fade: {
+          $value: [
+            { color: green, position: 0 },
+            {
+              color: { colorSpace: "srgb", components: [1, 1, 1] },
+              position: 1,
+            },
+          ],
+        },
+      },
+      border: {
+        $type: "border",
+        focus: {
+          $value: {
+            color: green,
+            width: { value: 2, unit: "px" },
+            style: "solid",
+          },
+        },
+      },
+    });
+    return nodesToMap(parsed.nodes);
+  };
+
+  test("maps colors of shadow, gradient and border to srgb", () => {
+    const css = generateCssVariables(parseCompositeTokens(), {
+      colorFallback: "supports",
+    });
+    expect(css).toBe(
+      [
+        ":root {",
+        "  --color-accent: rgb(0% 99% 16%);",
+        "  --shadow-glow: 0px 0px 4px 0px rgb(0% 99% 16%);",
+        "  --shadow-aliased: 0px 0px 4px 0px var(--color-accent);",
+        "  --gradient-fade: linear-gradient(90deg, rgb(0% 99% 16%) 0%, rgb(100% 100% 100%) 100%);",
+        "  --border-focus: 2px solid rgb(0% 99% 16%);",
+        "}",
+        "",
+        "@supports (color: color(display-p3 0 0 0)) {",
+        "  :root {",
+        "    --color-accent: color(display-p3 0 1 0);",
+        "    --shadow-glow: 0px 0px 4px 0px color(display-p3 0 1 0);",
+        "    --gradient-fade: linear-gradient(90deg, color(display-p3 0 1 0) 0%, rgb(100% 100% 100%) 100%);",
+        "    --border-focus: 2px solid color(display-p3 0 1 0);",
+        "  }",
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  test("keeps composite colors as is by default", () => {
+    const css = generateCssVariables(parseCompositeTokens());
+    expect(css).toContain("--border-focus: 2px solid color(display-p3 0 1 0);");
+    expect(css).not.toContain("rgb(0% 99% 16%)");
+  });
+});
+
+describe("generateCssVariables with modifiers", () => {
+  const parseThemeResolver = async () => {
+    const result = await parseTokenResolver({
+      version: "2025.10",
+      resolutionOrder: [
+        {
+          type: "set",
+          name: "Base",
+          sources: [
+            {
+              space: {
+                $type: "dimension",
+                md: { $value: { value: 16, unit: "px" } },
+              },
+              color: {
+                $type: "color",
+                bg: { $value: { colorSpace: "srgb", components: [1, 1, 1] } },
+                text: { $value: { colorSpace: "srgb", components: [0, 0, 0] } },
+              },
+            },
+          ],
+        },
+        {
+          type: "modifier",
+          name: "Theme",
+          default: "light",
+          contexts: {
+            light: [
+              {
+                color: {
+                  $type: "color",
+                  surface: { $value: "{color.bg}" },
+                },
+              },
+            ],
+            dark: [
+              {
+                color: {
+                  $type: "color",
+                  surface: { $value: "{color.text}" },
+                },
+              },
+            ],
+          },
+        },
+      ],
+    });
+    expect(result.errors).toHaveLength(0);
+    return nodesToMap(result.nodes);
+  };
+
+  test("keeps sets in :root and scopes contexts with data attribute", async () => {
+    const css = generateCssVariables(await parseThemeResolver());
+    expect(css).toBe(
+      [
+        ":root {",
+        "  --space-md: 16px;",
+        "  --color-bg: rgb(100% 100% 100%);",
+        "  --color-text: rgb(0% 0% 0%);",
+        "}",
+        "",
+        ':root, [data-theme="light"] {',
+        "  --color-surface: var(--color-bg);",
+        "}",
+        "",
+        '[data-theme="dark"] {',
+        "  --color-surface: var(--color-text);",
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  test("scopes contexts with prefers-color-scheme media query", async () => {
+    const css = generateCssVariables(await parseThemeResolver(), {
+      modifiers: { Theme: { strategy: "media" } },
+    });
+    expect(css).toContain(
+      [
+        ":root {",
+        "  --color-surface: var(--color-bg);",
+        "}",
+        "",
+        "@media (prefers-color-scheme: dark) {",
+        "  :root {",
+        "    --color-surface: var(--color-text);",
+        "  }",
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  test("scopes contexts other than light and dark with data attribute in media strategy", async () => {
+    const result = await parseTokenResolver({
+      version: "2025.10",
+      resolutionOrder: [
+        {
+          type: "modifier",
+          name: "Density",
+          default: "comfortable",
+          contexts: {
+            comfortable: [
+              {
+                gap: {
+                  $type: "dimension",
+                  $value: { value: 16, unit: "px" },
+                },
+              },
+            ],
+            compact: [
+              {
+                gap: {
+                  $type: "dimension",
+                  $value: { value: 8, unit: "px" },
+                },
+              },
+            ],
+          },
+        },
+      ],
+    });
+    const css = generateCssVariables(nodesToMap(result.nodes), {
+      modifiers: { Density: { strategy: "media" } },
+    });
+    expect(css).not.toContain("prefers-color-scheme");
+    expect(css).toBe(
+      [
+        ":root {",
+        "}",
+        "",
+        ':root, [data-density="comfortable"] {',
+        "  --gap: 16px;",
+        "}",
+        "",
+        '[data-density="compact"] {',
+        "  --gap: 8px;",
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  test("nests media query of context into supports block", async () => {
+    const result = await parseTokenResolver({
+      version: "2025.10",
+      resolutionOrder: [
+        {
+          type: "modifier",
+          name: "Theme",
+          default: "light",
+          contexts: {
+            light: [],
+            dark: [
+              {
+                accent: {
+                  $type: "color",
+                  $value: { colorSpace: "display-p3", components: [0, 1, 0] },
+                },
+              },
+            ],
+          },
+        },
+      ],
+    });
+    const css = generateCssVariables(nodesToMap(result.nodes), {
+      modifiers: { Theme: { strategy: "media" } },
+      colorFallback: "supports",
+    });
+    expect(css).toContain(
+      [
+        "@media (prefers-color-scheme: dark) {",
+        "  :root {",
+        "    --accent: rgb(0% 99% 16%);",
+        "  }",
+        "}",
+        "",
+        "@supports (color: color(display-p3 0 0 0)) {",
+        "  @media (prefers-color-scheme: dark) {",
+        "    :root {",
+        "      --accent: color(display-p3 0 1 0);",
+        "    }",
+        "  }",
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  test("scopes contexts with custom selector template", async () => {
+    const css = generateCssVariables(await parseThemeResolver(), {
+      modifiers: {
+        Theme: { strategy: "selector", template: ".{modifier}-{context}" },
+      },
+    });
+    expect(css).toContain(":root, .theme-light {");
+    expect(css).toContain(
+      ".theme-dark {\n  --color-surface: var(--color-text);",
+    );
+  });
+
+  test("emits only tokens defined in each context", async () => {
+    const css = generateCssVariables(await parseThemeResolver());
+    const darkBlock = css.slice(css.indexOf('[data-theme="dark"]'));
+    expect(darkBlock).not.toContain("--space-md");
+    expect(darkBlock).not.toContain("--color-bg");
+  });
+
+  test("skips contexts without tokens", async () => {
+    const result = await parseTokenResolver({
+      version: "2025.10",
+      resolutionOrder: [
+        {
+          type: "modifier",
+          name: "Density",
+          contexts: {
+            compact: [],
+            comfortable: [
+              {
+                gap: {
+                  $type: "dimension",
+                  $value: { value: 24, unit: "px" },
+                },
+              },
+            ],
+          },
+        },
+      ],
+    });
+    const css = generateCssVariables(nodesToMap(result.nodes));
+    expect(css).not.toContain("compact");
+    expect(css).toContain('[data-density="comfortable"] {\n  --gap: 24px;\n}');
+  });
+});
+
 describe("parseCssVariables", () => {
   test("returns empty object for empty input", () => {
     expect(parseCssVariables("")).toEqual({});
@@ -1105,3 +1496,122 @@ describe("parseCssVariables", () => {
     });
   });
 });
+
+describe("parseCssResolver", () => {
+  test("creates only base set without additional blocks", () => {
+    expect(
+      parseCssResolver(":root { --space: 4px; }", "Base").resolutionOrder,
+    ).toEqual([
+      {
+        type: "set",
+        name: "Base",
+        sources: [
+          { space: { $type: "dimension", $value: { value: 4, unit: "px" } } },
+        ],
+      },
+    ]);
+  });
+
+  test("maps data attributes and media queries to modifier contexts", () => {
+    const result = parseCssResolver(
+      `
+      :root { --surface: #ffffff; --space: 4px; }
+      [data-theme="dark"] { --surface: #000000; --space: 4px; }
+      :root[data-density='compact'] { --space: 2px; }
+      @media (prefers-color-scheme: dark) {
+        :root { --surface: #111111; }
+      }
+      @media (min-width: 768px) {
+        :root { --space: 8px; }
+      }
+      .brand { --space: 6px; }
+      `,
+      "Base",
+    );
+    expect(
+      result.resolutionOrder.map((item) =>
+        item.type === "modifier"
+          ? { name: item.name, contexts: item.contexts }
+          : item.name,
+      ),
+    ).toEqual([
+      "Base",
+      {
+        name: "theme",
+        contexts: {
+          dark: [
+            {
+              surface: {
+                $type: "color",
+                $value: {
+                  colorSpace: "srgb",
+                  components: [0, 0, 0],
+                  hex: "#000000",
+                },
+              },
+            },
+          ],
+        },
+      },
+      {
+        name: "density",
+        contexts: {
+          compact: [
+            { space: { $type: "dimension", $value: { value: 2, unit: "px" } } },
+          ],
+        },
+      },
+      {
+        name: "color-scheme",
+        contexts: { dark: [{ surface: expect.any(Object) }] },
+      },
+      {
+        name: "media",
+        contexts: { "min-width-768px": [{ space: expect.any(Object) }] },
+      },
+      {
+        name: "selector",
+        contexts: { brand: [{ space: expect.any(Object) }] },
+      },
+    ]);
+  });
+
+  test("treats selectors listed with :root as default context", () => {
+    const result = parseCssResolver(
+      `
+      :root { --space: 4px; }
+      :root, [data-theme="light"] { --surface: #ffffff; }
+      [data-theme="dark"] { --surface: #000000; }
+      `,
+      "Base",
+    );
+    expect(result.resolutionOrder[1]).toMatchObject({
+      type: "modifier",
+      name: "theme",
+      default: "light",
+      contexts: {
+        light: [{ surface: { $type: "color" } }],
+        dark: [{ surface: { $type: "color" } }],
+      },
+    });
+  });
+
+  test("round trips through resolver and css export", async () => {
+    const css = [
+      ":root {",
+      "  --space: 4px;",
+      "}",
+      "",
+      ':root, [data-theme="light"] {',
+      "  --link: var(--space);",
+      "}",
+      "",
+      '[data-theme="dark"] {',
+      "  --link: 8px;",
+      "}",
+    ].join("\n");
+    const result = await parseTokenResolver(parseCssResolver(css, "Base"));
+    expect(result.errors).toEqual([]);
+    expect(generateCssVariables(nodesToMap(result.nodes))).toBe(css);
+  });
+});
@@ -1,10 +1,16 @@
 import { kebabCase, noCase } from "change-case";
 import { compareTreeNodes, type TreeNode } from "./store";
 import type { TreeNodeMeta } from "./state.svelte";
-import { serializeColor, parseColor } from "./color";
+import {
+  convertColor,
+  getColorGamut,
+  serializeColor,
+  parseColor,
+} from "./color";
 import type {
   ColorValue,
   GradientValue,
+  ResolvedResolverDocument,
   ShadowObject,
   Token,
 } from "./dtcg.schema";
@@ -88,10 +94,11 @@ const valueOrVar = <T>(
 export const toShadowValue = (
   value: RawShadowValue,
   nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  toColor: (value: ColorValue) => string = serializeColor,
 ) => {
   const shadows = Array.isArray(value) ? value : [value];
   const shadowStrings = shadows.map((shadow) => {
-    const color = valueOrVar(shadow.color, serializeColor, nodes);
+    const color = valueOrVar(shadow.color, toColor, nodes);
     const inset = shadow.inset ? "inset " : "";
     const offsetX = valueOrVar(shadow.offsetX, toDimensionValue, nodes);
     const offsetY = valueOrVar(shadow.offsetY, toDimensionValue, nodes);
@@ -105,25 +112,27 @@ export const toShadowValue = (
 export const toGradientValue = (
   value: RawGradientValue,
   nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  toColor: (value: ColorValue) => string = serializeColor,
 ) => {
   const stops = value.map((stop) => {
-    const color = valueOrVar(stop.color, serializeColor, nodes);
+    const color = valueOrVar(stop.color, toColor, nodes);
     return `${color} ${stop.position * 100}%`;
   });
   return `linear-gradient(90deg, ${stops.join(", ")})`;
 };
 
-const toBorderValue = (
+export const toBorderValue = (
   value: RawBorderValue,
   nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  toColor: (value: ColorValue) => string = serializeColor,
 ) => {
   const style = valueOrVar(value.style, toStrokeStyleValue, nodes);
   const width = valueOrVar(value.width, toDimensionValue, nodes);
-  const color = valueOrVar(value.color, serializeColor, nodes);
+  const color = valueOrVar(value.color, toColor, nodes);
   return `${width} ${style} ${color}`;
 };
 
-const toTransitionValue = (
+export const toTransitionValue = (
   value: RawTransitionValue,
   nodes: Map<string, TreeNode<TreeNodeMeta>>,
 ) => {
@@ -183,24 +192,37 @@ const addTypography = (
   );
 };
 
-const processNode = (
+/**
+ * Generate CSS variable name from token path
+ */
+export const toVariableName = (path: string[]) => {
+  return `--${kebabCase(path.join("-"))}`;
+};
+
+/**
+ * Visit tokens in tree order with path of group and token names
+ */
+export const visitTokens = (
   node: TreeNode<TreeNodeMeta>,
   path: string[],
   childrenByParent: Map<string | undefined, TreeNode<TreeNodeMeta>[]>,
-  lines: string[],
-  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  callback: (node: TreeNode<TreeNodeMeta>, path: string[]) => void,
 ) => {
-  // resolver, token-set, modifier, and modifier-context are intended for grouping
+  // modifier contexts are rendered as separate scoped blocks
+  if (node.meta.nodeType === "modifier") {
+    return;
+  }
+
+  // resolver, token-set, and modifier-context are intended for grouping
   // and should be omitted in generated variables
   if (
     node.meta.nodeType === "resolver" ||
     node.meta.nodeType === "token-set" ||
-    node.meta.nodeType === "modifier" ||
     node.meta.nodeType === "modifier-context"
   ) {
     const children = childrenByParent.get(node.nodeId) ?? [];
     for (const child of children) {
-      processNode(child, path, childrenByParent, lines, nodes);
+      visitTokens(child, path, childrenByParent, callback);
     }
     return;
   }
@@ -209,19 +231,58 @@ const processNode = (
   if (node.meta.nodeType === "token-group") {
     const children = childrenByParent.get(node.nodeId) ?? [];
     for (const child of children) {
-      processNode(
-        child,
-        [...path, node.meta.name],
-        childrenByParent,
-        lines,
-        nodes,
-      );
+      visitTokens(child, [...path, node.meta.name], childrenByParent, callback);
     }
   }
 
   if (node.meta.nodeType === "token") {
-    const token = node.meta;
-    const propertyName = `--${kebabCase([...path, node.meta.name].join("-"))}`;
+    callback(node, [...path, node.meta.name]);
+  }
+};
+
+const toSrgbColor = (value: ColorValue) => {
+  return serializeColor(convertColor(value, "srgb"));
+};
+
+/**
+ * Value with colors out of srgb gets fallback mapped with CSS Color 4
+ * algorithm, wide gamut value is moved into p3 lines
+ */
+const addColorValue = (
+  propertyName: string,
+  colors: Array<ColorValue | NodeRef>,
+  render: (toColor: (value: ColorValue) => string) => string,
+  lines: string[],
+  p3Lines: string[],
+  colorFallback: CssVariablesOptions["colorFallback"],
+) => {
+  if (
+    !colorFallback ||
+    colorFallback === "none" ||
+    colors.every((color) => isNodeRef(color) || getColorGamut(color) === "srgb")
+  ) {
+    lines.push(`  ${propertyName}: ${render(serializeColor)};`);
+    return;
+  }
+  lines.push(`  ${propertyName}: ${render(toSrgbColor)};`);
+  p3Lines.push(`  ${propertyName}: ${render(serializeColor)};`);
+};
+
+const processNode = (
+  node: TreeNode<TreeNodeMeta>,
+  path: string[],
+  childrenByParent: Map<string | undefined, TreeNode<TreeNodeMeta>[]>,
+  lines: string[],
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  options: CssVariablesOptions = {},
+  p3Lines: string[] = [],
+) => {
+  visitTokens(node, path, childrenByParent, (tokenNode, tokenPath) => {
+    if (tokenNode.meta.nodeType !== "token") {
+      return;
+    }
+    const token = tokenNode.meta;
+    const propertyName = toVariableName(tokenPath);
     // Handle token aliases (references to other tokens)
     if (isNodeRef(token.value)) {
       const variable = referenceToVariable(token.value, nodes);
@@ -229,9 +290,18 @@ const processNode = (
       return;
     }
     switch (token.type) {
-      case "color":
-        lines.push(`  ${propertyName}: ${serializeColor(token.value)};`);
+      case "color": {
+        const value = token.value;
+        addColorValue(
+          propertyName,
+          [value],
+          (toColor) => toColor(value),
+          lines,
+          p3Lines,
+          options.colorFallback,
+        );
         break;
+      }
       case "dimension":
         lines.push(`  ${propertyName}: ${toDimensionValue(token.value)};`);
         break;
@@ -248,17 +318,43 @@ const processNode = (
       case "fontFamily":
         lines.push(`  ${propertyName}: ${toFontFamilyValue(token.value)};`);
         break;
-      case "shadow":
-        lines.push(`  ${propertyName}: ${toShadowValue(token.value, nodes)};`);
+      case "shadow": {
+        const value = token.value;
+        const shadows = Array.isArray(value) ? value : [value];
+        addColorValue(
+          propertyName,
+          shadows.map((shadow) => shadow.color),
+          (toColor) => toShadowValue(value, nodes, toColor),
+          lines,
+          p3Lines,
+          options.colorFallback,
+        );
         break;
-      case "gradient":
-        lines.push(
-          `  ${propertyName}: ${toGradientValue(token.value, nodes)};`,
+      }
+      case "gradient": {
+        const value = token.value;
+        addColorValue(
+          propertyName,
+          value.map((stop) => stop.color),
+          (toColor) => toGradientValue(value, nodes, toColor),
+          lines,
+          p3Lines,
+          options.colorFallback,
         );
         break;
-      case "border":
-        lines.push(`  ${propertyName}: ${toBorderValue(token.value, nodes)};`);
+      }
+      case "border": {
+        const value = token.value;
+        addColorValue(
+          propertyName,
+          [value.color],
+          (toColor) => toBorderValue(value, nodes, toColor),
+          lines,
+          p3Lines,
+          options.colorFallback,
+        );
         break;
+      }
       case "transition":
         lines.push(
           `  ${propertyName}: ${toTransitionValue(token.value, nodes)};`,
@@ -274,18 +370,87 @@ const processNode = (
         token satisfies never;
         break;
     }
+  });
+};
+
+export type ContextSelectorStrategy = "attribute" | "media" | "selector";
+
+export type ModifierCssOptions = {
+  strategy: ContextSelectorStrategy;
+  /** selector with {modifier} and {context} placeholders, e.g. ".theme-{context}" */
+  template?: string;
+};
+
+export type CssVariablesOptions = {
+  /** selector strategy per modifier name, attribute selector by default */
+  modifiers?: Record<string, ModifierCssOptions>;
+  /**
+   * srgb fallback of wide gamut colors with wide gamut value moved
+   * into block of browsers supporting p3 or of displays covering p3
+   */
+  colorFallback?: "none" | "supports" | "media";
+};
+
+const p3SupportsQuery = "@supports (color: color(display-p3 0 0 0))";
+const p3MediaQuery = "@media (color-gamut: p3)";
+
+// wide gamut values of the block override srgb fallbacks
+const addP3Block = (
+  lines: string[],
+  selector: string,
+  p3Lines: string[],
+  colorFallback: CssVariablesOptions["colorFallback"],
+) => {
+  if (p3Lines.length === 0) {
+    return;
   }
+  const query = colorFallback === "supports" ? p3SupportsQuery : p3MediaQuery;
+  lines.push("", `${query} {`, `  ${selector} {`);
+  lines.push(...p3Lines.map((line) => `  ${line}`));
+  lines.push("  }", "}");
 };
 
-export const generateCssVariables = (
+export const defaultSelectorTemplate = '[data-{modifier}="{context}"]';
+
+/**
+ * prefers-color-scheme matches only light and dark,
+ * other contexts of media strategy are scoped with data attribute
+ */
+export const isColorSchemeContext = (contextName: string) => {
+  return contextName === "light" || contextName === "dark";
+};
+
+export const isMediaContext = (
+  contextName: string,
+  options: undefined | ModifierCssOptions,
+) => {
+  return options?.strategy === "media" && isColorSchemeContext(contextName);
+};
+
+export const getContextSelector = (
+  modifierName: string,
+  contextName: string,
+  options: ModifierCssOptions = { strategy: "attribute" },
+) => {
+  if (isMediaContext(contextName, options)) {
+    return `@media (prefers-color-scheme: ${contextName})`;
+  }
+  const template =
+    options.strategy === "selector" && options.template?.trim()
+      ? options.template
+      : defaultSelectorTemplate;
+  return template
+    .replaceAll("{modifier}", kebabCase(modifierName))
+    .replaceAll("{context}", contextName);
+};
+
+export const buildChildrenByParent = (
   nodes: Map<string, TreeNode<TreeNodeMeta>>,
-): string => {
-  const lines: string[] = [];
+) => {
   const childrenByParent = new Map<
     string | undefined,
     TreeNode<TreeNodeMeta>[]
   >();
-  // build index for children
   for (const node of nodes.values()) {
     const children = childrenByParent.get(node.parentId) ?? [];
     children.push(node);
@@ -294,20 +459,131 @@ export const generateCssVariables = (
   for (const children of childrenByParent.values()) {
     children.sort(compareTreeNodes);
   }
-  // render css variables in root element
+  return childrenByParent;
+};
+
+/**
+ * Render each modifier context as a block scoped with selector or media query,
+ * default context is applied to :root as well
+ */
+const renderModifier = (
+  modifier: TreeNode<TreeNodeMeta>,
+  childrenByParent: Map<string | undefined, TreeNode<TreeNodeMeta>[]>,
+  lines: string[],
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  options: CssVariablesOptions,
+) => {
+  if (modifier.meta.nodeType !== "modifier") {
+    return;
+  }
+  const modifierOptions = options.modifiers?.[modifier.meta.name];
+  const contexts = childrenByParent.get(modifier.nodeId) ?? [];
+  // default context goes first so other contexts can override it
+  const defaultName = modifier.meta.default;
+  const sortedContexts = [
+    ...contexts.filter((context) => context.meta.name === defaultName),
+    ...contexts.filter((context) => context.meta.name !== defaultName),
+  ];
+  for (const context of sortedContexts) {
+    const contextLines: string[] = [];
+    const p3Lines: string[] = [];
+    processNode(
+      context,
+      [],
+      childrenByParent,
+      contextLines,
+      nodes,
+      options,
+      p3Lines,
+    );
+    if (contextLines.length === 0) {
+      continue;
+    }
+    const isDefault = context.meta.name === defaultName;
+    const selector = getContextSelector(
+      modifier.meta.name,
+      context.meta.name,
+      modifierOptions,
+    );
+    lines.push("");
+    if (isMediaContext(context.meta.name, modifierOptions)) {
+      if (isDefault) {
+        lines.push(":root {", ...contextLines, "}");
+        addP3Block(lines, ":root", p3Lines, options.colorFallback);
+      } else {
+        lines.push(`${selector} {`, "  :root {");
+        lines.push(...contextLines.map((line) => `  ${line}`));
+        lines.push("  }", "}");
+        if (p3Lines.length > 0 && options.colorFallback === "supports") {
+          lines.push("", `${p3SupportsQuery} {`, `  ${selector} {`);
+          lines.push("    :root {");
+          lines.push(...p3Lines.map((line) => `    ${line}`));
+          lines.push("    }", "  }", "}");
+        } else if (p3Lines.length > 0) {
+          // both media features are combined in one query
+          lines.push("", `${selector} and (color-gamut: p3) {`, "  :root {");
+          lines.push(...p3Lines.map((line) => `  ${line}`));
+          lines.push("  }", "}");
+        }
+      }
+    } else {
+      lines.push(`${isDefault ? ":root, " : ""}${selector} {`);
+      lines.push(...contextLines, "}");
+      addP3Block(
+        lines,
+        `${isDefault ? ":root, " : ""}${selector}`,
+        p3Lines,
+        options.colorFallback,
+      );
+    }
+  }
+};
+
+/**
+ * Find modifiers at root and inside resolvers in tree order
+ */
+export const getModifiers = (
+  childrenByParent: Map<string | undefined, TreeNode<TreeNodeMeta>[]>,
+  parentId: string | undefined = undefined,
+): TreeNode<TreeNodeMeta>[] => {
+  const modifiers: TreeNode<TreeNodeMeta>[] = [];
+  for (const node of childrenByParent.get(parentId) ?? []) {
+    if (node.meta.nodeType === "resolver") {
+      modifiers.push(...getModifiers(childrenByParent, node.nodeId));
+    }
+    if (node.meta.nodeType === "modifier") {
+      modifiers.push(node);
+    }
+  }
+  return modifiers;
+};
+
+export const generateCssVariables = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  options: CssVariablesOptions = {},
+): string => {
+  const lines: string[] = [];
+  const childrenByParent = buildChildrenByParent(nodes);
+  // render css variables of sets in root element
   lines.push(":root {");
+  const p3Lines: string[] = [];
   const rootChildren = childrenByParent.get(undefined) ?? [];
   for (const node of rootChildren) {
-    processNode(node, [], childrenByParent, lines, nodes);
+    processNode(node, [], childrenByParent, lines, nodes, options, p3Lines);
   }
   lines.push("}");
+  addP3Block(lines, ":root", p3Lines, options.colorFallback);
+  // render contexts of every modifier in tree order
+  for (const modifier of getModifiers(childrenByParent)) {
+    renderModifier(modifier, childrenByParent, lines, nodes, options);
+  }
   return lines.join("\n");
 };
 
 /**
  * Split by character like space or comma ignoring internals of functions
  */
-const splitBy = (value: string, separator: string | RegExp) => {
+export const splitBy = (value: string, separator: string | RegExp) => {
   const parts: string[] = [];
   let currentPart = "";
   let depth = 0;
@@ -334,7 +610,8 @@ const splitBy = (value: string, separator: string | RegExp) => {
 };
 
 const parseAliasValue = (value: string): undefined | string => {
-  const match = value.match(/^var\(--([a-zA-Z0-9_-]+)\)$/);
+  // dots separate groups in aliases produced by scss maps
+  const match = value.match(/^var\(--([a-zA-Z0-9_.-]+)\)$/);
   if (match) {
     return `{${match[1]}}`;
   }
@@ -647,6 +924,26 @@ const parseFontFamily = (value: string): undefined | Token => {
   }
 };
 
+/**
+ * Detect token type of CSS value, var() references become aliases
+ */
+export const parseCssValue = (value: string): undefined | Token => {
+  return (
+    parseAliasToken(value) ??
+    parseColorToken(value) ??
+    parseDimensionToken(value) ??
+    parseDurationToken(value) ??
+    parseFontWeightToken(value) ??
+    parseNumberToken(value) ??
+    parseCubicBezierToken(value) ??
+    parseShadowToken(value) ??
+    parseBorderToken(value) ??
+    parseTransition(value) ??
+    parseGradientToken(value) ??
+    parseFontFamily(value)
+  );
+};
+
 /**
  * Parse CSS variables string and convert to DTCG format
  */
@@ -660,6 +957,10 @@ export const parseCssVariables = (input: string): Record<string, Token> => {
   if (rootMatch) {
     cssText = rootMatch[1];
   }
+  return parseDeclarations(cssText);
+};
+
+const parseDeclarations = (cssText: string): Record<string, Token> => {
   const result: Record<string, Token> = {};
   // Split by semicolon and parse each declaration
   const declarations = cssText
@@ -678,23 +979,162 @@ export const parseCssVariables = (input: string): Record<string, Token> => {
     }
     const tokenName = propertyName.slice(2); // Remove '--' prefix
     // Try to detect type and parse value
-    const token =
-      parseAliasToken(propertyValue) ??
-      parseColorToken(propertyValue) ??
-      parseDimensionToken(propertyValue) ??
-      parseDurationToken(propertyValue) ??
-      parseFontWeightToken(propertyValue) ??
-      parseNumberToken(propertyValue) ??
-      parseCubicBezierToken(propertyValue) ??
-      parseShadowToken(propertyValue) ??
-      parseBorderToken(propertyValue) ??
-      parseTransition(propertyValue) ??
-      parseGradientToken(propertyValue) ??
-      parseFontWeightToken(propertyValue) ??
-      parseFontFamily(propertyValue);
+    const token = parseCssValue(propertyValue);
     if (token) {
       result[tokenName] = token;
     }
   }
   return result;
 };
+
+type CssRule = {
+  /** enclosing media conditions */
+  media: string[];
+  selectors: string[];
+  body: string;
+};
+
+/**
+ * Collect rules with their enclosing media conditions,
+ * declarations outside of any rule belong to :root
+ */
+const parseCssRules = (cssText: string, media: string[] = []) => {
+  const rules: CssRule[] = [];
+  let position = 0;
+  let looseDeclarations = "";
+  while (position < cssText.length) {
+    const openIndex = cssText.indexOf("{", position);
+    if (openIndex === -1) {
+      looseDeclarations += cssText.slice(position);
+      break;
+    }
+    // prelude starts after the last declaration before the block
+    const chunk = cssText.slice(position, openIndex);
+    const preludeStart = chunk.lastIndexOf(";") + 1;
+    looseDeclarations += chunk.slice(0, preludeStart);
+    const prelude = chunk.slice(preludeStart).trim();
+    let depth = 1;
+    let closeIndex = openIndex + 1;
+    for (; closeIndex < cssText.length && depth > 0; closeIndex += 1) {
+      if (cssText[closeIndex] === "{") {
+        depth += 1;
+      }
+      if (cssText[closeIndex] === "}") {
+        depth -= 1;
+      }
+    }
+    const body = cssText.slice(openIndex + 1, closeIndex - 1);
+    if (prelude.startsWith("@media")) {
+      const condition = prelude.slice("@media".length).trim();
+      rules.push(...parseCssRules(body, [...media, condition]));
+    } else if (!prelude.startsWith("@")) {
+      rules.push({ media, selectors: splitBy(prelude, ","), body });
+    }
+    position = closeIndex;
+  }
+  if (looseDeclarations.trim()) {
+    rules.unshift({ media, selectors: [":root"], body: looseDeclarations });
+  }
+  return rules;
+};
+
+type CssModifier = {
+  default?: string;
+  contexts: Map<string, Record<string, Token>>;
+};
+
+const rootSelectorRegex = /^(:root|html|:host)$/;
+
+/**
+ * Find modifier and context of selector like exported by generateCssVariables
+ */
+const getSelectorContext = (selector: string, media: string[]) => {
+  // :root[data-theme="dark"] is the same as [data-theme="dark"]
+  const scopedSelector = selector.replace(/^(:root|html|:host)(?=\S)/, "");
+  if (rootSelectorRegex.test(scopedSelector) && media.length === 1) {
+    const colorScheme = media[0].match(
+      /^\(\s*prefers-color-scheme\s*:\s*([\w-]+)\s*\)$/,
+    );
+    if (colorScheme) {
+      return { modifier: "color-scheme", context: colorScheme[1] };
+    }
+  }
+  if (rootSelectorRegex.test(scopedSelector) && media.length > 0) {
+    return { modifier: "media", context: kebabCase(media.join(" ")) };
+  }
+  const attribute = scopedSelector.match(
+    /^\[data-([\w-]+)\s*=\s*["']?([\w-]+)["']?\]$/,
+  );
+  if (attribute && media.length === 0) {
+    return { modifier: attribute[1], context: attribute[2] };
+  }
+  return {
+    modifier: "selector",
+    context: kebabCase([...media, scopedSelector].join(" ")),
+  };
+};
+
+/**
+ * Parse CSS with multiple rule blocks into resolver document,
+ * :root becomes base set and every other selector or media condition
+ * becomes context of a modifier with only the overriding variables.
+ * Selectors listed together with :root form the default context.
+ */
+export const parseCssResolver = (
+  input: string,
+  setName: string,
+): ResolvedResolverDocument => {
+  // Remove /* comments */
+  const cssText = input.replace(/\/\*[^*]*\*+(?:[^/*][^*]*\*+)*\//g, "");
+  const base: Record<string, Token> = {};
+  const modifiers = new Map<string, CssModifier>();
+  for (const rule of parseCssRules(cssText)) {
+    const declarations = parseDeclarations(rule.body);
+    const hasRoot =
+      rule.media.length === 0 &&
+      rule.selectors.some((selector) => rootSelectorRegex.test(selector));
+    const contextSelectors = rule.selectors.filter(
+      (selector) => rule.media.length > 0 || !rootSelectorRegex.test(selector),
+    );
+    if (contextSelectors.length === 0) {
+      Object.assign(base, declarations);
+      continue;
+    }
+    for (const selector of contextSelectors) {
+      const { modifier, context } = getSelectorContext(selector, rule.media);
+      const modifierItem: CssModifier = modifiers.get(modifier) ?? {
+        contexts: new Map(),
+      };
+      modifiers.set(modifier, modifierItem);
+      if (hasRoot) {
+        modifierItem.default = context;
+      }
+      const tokens = modifierItem.contexts.get(context) ?? {};
+      modifierItem.contexts.set(context, tokens);
+      Object.assign(tokens, declarations);
+    }
+  }
+  const resolutionOrder: ResolvedResolverDocument["resolutionOrder"] = [
+    { type: "set", name: setName, sources: [base] },
+  ];
+  for (const [name, modifier] of modifiers) {
+    const contexts: Record<string, Record<string, Token>[]> = {};
+    for (const [contextName, tokens] of modifier.contexts) {
+      // keep only variables which differ from base
+      const overrides: Record<string, Token> = {};
+      for (const [tokenName, token] of Object.entries(tokens)) {
+        if (JSON.stringify(base[tokenName]) !== JSON.stringify(token)) {
+          overrides[tokenName] = token;
+        }
+      }
+      contexts[contextName] = [overrides];
+    }
+    resolutionOrder.push({
+      type: "modifier",
+      name,
+      default: modifier.default,
+      contexts,
+    });
+  }
+  return { version: "2025.10", resolutionOrder };
+};
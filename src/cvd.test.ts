@@ -0,0 +1,108 @@
+import { test, expect, describe } from "vitest";
+import {
+  findIndistinguishableColors,
+  simulateCvd,
+  simulateCvdValue,
+} from "./cvd";
+import { parseColor } from "./color";
+import type { ColorValue } from "./schema";
+
+const red = parseColor("#ff0000");
+const green = parseColor("#00ff00");
+const white: ColorValue = { colorSpace: "srgb", components: [1, 1, 1] };
+
+const round = (color: ColorValue) =>
+  color.components.map((component) => Math.round(Number(component) * 100));
+
+describe("simulateCvd", () => {
+  test("keeps white and black for every deficiency", () => {
+    for (const type of ["protanopia", "deuteranopia", "tritanopia"] as const) {
+      expect(round(simulateCvd(white, type))).toEqual([100, 100, 100]);
+      expect(
+        round(simulateCvd({ colorSpace: "srgb", components: [0, 0, 0] }, type)),
+      ).toEqual([0, 0, 0]);
+    }
+  });
+
+  test("simulates protanopia in linear srgb", () => {
+    const simulated = simulateCvd(red, "protanopia");
+    expect(simulated.colorSpace).toBe("srgb");
+    // red loses most of its brightness and saturation
+    expect(round(simulated)).toEqual([43, 37, 0]);
+  });
+
+  test("removes chroma with achromatopsia", () => {
+    const [r, g, b] = round(simulateCvd(green, "achromatopsia"));
+    expect(r).toBe(g);
+    expect(g).toBe(b);
+  });
+
+  test("keeps alpha", () => {
+    expect(simulateCvd({ ...red, alpha: 0.5 }, "deuteranopia").alpha).toBe(0.5);
+  });
+});
+
+describe("simulateCvdValue", () => {
+  test("simulates colors of composite values", () => {
+    const gradient = simulateCvdValue(
+      {
+        type: "gradient",
+        value: [
+          { color: red, position: 0 },
+          { color: white, position: 1 },
+        ],
+      },
+      "achromatopsia",
+    );
+    expect(gradient.type === "gradient" && gradient.value[0].color).toEqual(
+      simulateCvd(red, "achromatopsia"),
+    );
+    const border = simulateCvdValue(
+      {
+        type: "border",
+        value: {
+          color: red,
+          width: { value: 1, unit: "px" },
+          style: "solid",
+        },
+      },
+      "protanopia",
+    );
+    expect(border.type === "border" && border.value.color).toEqual(
+      simulateCvd(red, "protanopia"),
+    );
+  });
+
+  test("keeps values without colors", () => {
+    const value = { type: "number" as const, value: 1 };
+    expect(simulateCvdValue(value, "tritanopia")).toBe(value);
+  });
+});
+
+describe("findIndistinguishableColors", () => {
+  const colors = [
+    { name: "danger", color: parseColor("#d73027") },
+    { name: "success", color: parseColor("#4d9221") },
+    { name: "info", color: parseColor("#4575b4") },
+  ];
+
+  test("reports siblings which become too close", () => {
+    const pairs = findIndistinguishableColors(colors, "deuteranopia", 0.1);
+    expect(pairs.map((pair) => [pair.first, pair.second])).toEqual([
+      ["danger", "success"],
+    ]);
+    expect(pairs[0].difference).toBeLessThan(0.1);
+  });
+
+  test("ignores colors which are identical without deficiency", () => {
+    expect(
+      findIndistinguishableColors(
+        [
+          { name: "a", color: red },
+          { name: "b", color: red },
+        ],
+        "protanopia",
+      ),
+    ).toEqual([]);
+  });
+});
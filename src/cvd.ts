@@ -0,0 +1,130 @@
+import { convertColor, getColorDifference } from "./color";
+import type { ColorValue, Value } from "./schema";
+
+export type CvdType =
+  | "protanopia"
+  | "deuteranopia"
+  | "tritanopia"
+  | "achromatopsia";
+
+export const cvdTypes: CvdType[] = [
+  "protanopia",
+  "deuteranopia",
+  "tritanopia",
+  "achromatopsia",
+];
+
+type Matrix = [
+  [number, number, number],
+  [number, number, number],
+  [number, number, number],
+];
+
+// full severity matrices of Machado, Oliveira and Fernandes (2009)
+// achromatopsia keeps only luminance
+// https://www.inf.ufrgs.br/~oliveira/pubs_files/CVD_Simulation/CVD_Simulation.html
+const matrices: Record<CvdType, Matrix> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.01182, 0.04294, 0.968881],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.3039],
+  ],
+  achromatopsia: [
+    [0.2126, 0.7152, 0.0722],
+    [0.2126, 0.7152, 0.0722],
+    [0.2126, 0.7152, 0.0722],
+  ],
+};
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Color as seen with color vision deficiency,
+ * matrix is applied to linear srgb and result is converted back to srgb
+ */
+export const simulateCvd = (
+  colorValue: ColorValue,
+  type: CvdType,
+): ColorValue => {
+  const linear = convertColor(colorValue, "srgb-linear");
+  const [r, g, b] = linear.components as number[];
+  const components = matrices[type].map(([mr, mg, mb]) =>
+    clamp(mr * r + mg * g + mb * b),
+  );
+  return convertColor({ ...linear, components }, "srgb");
+};
+
+/**
+ * Resolved token value with every color simulated,
+ * including colors inside gradients, shadows and borders
+ */
+export const simulateCvdValue = (value: Value, type: CvdType): Value => {
+  switch (value.type) {
+    case "color":
+      return { ...value, value: simulateCvd(value.value, type) };
+    case "gradient":
+    case "shadow":
+      return {
+        ...value,
+        value: value.value.map((item) => ({
+          ...item,
+          color: simulateCvd(item.color, type),
+        })),
+      } as Value;
+    case "border":
+      return {
+        ...value,
+        value: { ...value.value, color: simulateCvd(value.value.color, type) },
+      };
+    default:
+      return value;
+  }
+};
+
+export const defaultDistinguishabilityThreshold = 0.02;
+
+export type IndistinguishablePair = {
+  first: string;
+  second: string;
+  /** ΔE OK of simulated colors */
+  difference: number;
+};
+
+/**
+ * Pairs of sibling colors which become too close with color vision deficiency,
+ * colors already indistinguishable without it are not reported
+ */
+export const findIndistinguishableColors = (
+  colors: { name: string; color: ColorValue }[],
+  type: CvdType,
+  threshold = defaultDistinguishabilityThreshold,
+): IndistinguishablePair[] => {
+  const simulated = colors.map((item) => simulateCvd(item.color, type));
+  const pairs: IndistinguishablePair[] = [];
+  for (let i = 0; i < colors.length; i += 1) {
+    for (let j = i + 1; j < colors.length; j += 1) {
+      const difference = getColorDifference(simulated[i], simulated[j]);
+      if (
+        difference < threshold &&
+        getColorDifference(colors[i].color, colors[j].color) >= threshold
+      ) {
+        pairs.push({
+          first: colors[i].name,
+          second: colors[j].name,
+          difference,
+        });
+      }
+    }
+  }
+  return pairs;
+};
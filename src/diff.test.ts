@@ -0,0 +1,386 @@
+import { test, expect, describe } from "vitest";
+import {
+  diffTokens,
+  diffVersions,
+  getAvailableIntermediaryNodes,
+  mergeTokens,
+  serializeTokenValue,
+} from "./diff";
+import { extractIntermediaryNodes, resolveIntermediaryNodes } from "./tokens";
+import type { TreeNode } from "./store";
+import type { TokenMeta, TreeNodeMeta } from "./state.svelte";
+
+const blue = { colorSpace: "srgb", components: [0, 0, 1] };
+const red = { colorSpace: "srgb", components: [1, 0, 0] };
+
+// parse tokens document into set node, aliases may target current nodes
+const parseSet = (
+  setId: string,
+  input: unknown,
+  current = new Map<string, TreeNode<TreeNodeMeta>>(),
+) => {
+  const { nodes: intermediaryNodes } = extractIntermediaryNodes(input);
+  const { nodes, errors } = resolveIntermediaryNodes(
+    intermediaryNodes,
+    new Map([...getAvailableIntermediaryNodes(current), ...intermediaryNodes]),
+  );
+  expect(errors).toEqual([]);
+  const result = new Map<string, TreeNode<TreeNodeMeta>>();
+  result.set(setId, {
+    nodeId: setId,
+    parentId: undefined,
+    index: "a0",
+    meta: { nodeType: "token-set", name: setId },
+  });
+  for (const node of nodes) {
+    result.set(node.nodeId, { ...node, parentId: node.parentId ?? setId });
+  }
+  return result;
+};
+
+const findToken = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  name: string,
+) => {
+  return Array.from(nodes.values()).find(
+    (node) => node.meta.nodeType === "token" && node.meta.name === name,
+  ) as TreeNode<TokenMeta>;
+};
+
+describe("diffTokens", () => {
+  test("detects added, removed, changed and type-changed tokens", () => {
+    const current = parseSet("current", {
+      color: {
+        $type: "color",
+        primary: { $value: blue },
+        secondary: { $value: blue },
+        accent: { $value: blue },
+        same: { $value: "{color.primary}" },
+      },
+    });
+    const incoming = parseSet("incoming", {
+      color: {
+        $type: "color",
+        primary: { $value: red },
+        accent: { $type: "dimension", $value: { value: 4, unit: "px" } },
+        same: { $value: "{color.primary}" },
+        new: { $value: blue },
+      },
+    });
+    const changes = diffTokens(current, "current", incoming, "incoming");
+    expect(
+      changes.map((change) => ({ kind: change.kind, path: change.path })),
+    ).toEqual([
+      { kind: "changed", path: "color.primary" },
+      { kind: "type-changed", path: "color.accent" },
+      { kind: "added", path: "color.new" },
+      { kind: "removed", path: "color.secondary" },
+    ]);
+  });
+
+  test("compares aliases by path", () => {
+    const current = parseSet("current", {
+      color: {
+        $type: "color",
+        primary: { $value: blue },
+        link: { $value: "{color.primary}" },
+      },
+    });
+    const incoming = parseSet("incoming", {
+      color: {
+        $type: "color",
+        primary: { $value: blue },
+        secondary: { $value: blue },
+        link: { $value: "{color.secondary}" },
+      },
+    });
+    const changes = diffTokens(current, "current", incoming, "incoming");
+    const change = changes.find((item) => item.path === "color.link")!;
+    expect(change.kind).toBe("changed");
+    expect(serializeTokenValue(change.current!.meta, current)).toBe(
+      "{color.primary}",
+    );
+    expect(serializeTokenValue(change.incoming!.meta, incoming)).toBe(
+      "{color.secondary}",
+    );
+  });
+});
+
+describe("diffVersions", () => {
+  const summarize = (changes: ReturnType<typeof diffVersions>) =>
+    changes.map(({ kind, container, path, previousPath }) => ({
+      kind,
+      container,
+      path,
+      ...(previousPath && { previousPath }),
+    }));
+
+  test("detects renamed, changed and type-changed tokens", () => {
+    const before = parseSet("base", {
+      color: {
+        $type: "color",
+        red: { $value: red },
+        blue: { $value: blue },
+        accent: { $value: "{color.red}" },
+      },
+      space: { $type: "dimension", sm: { $value: { value: 4, unit: "px" } } },
+      size: { $type: "number", $value: 1 },
+    });
+    const after = parseSet("base", {
+      color: {
+        $type: "color",
+        primary: { $value: red },
+        blue: { $value: red },
+        accent: { $value: "{color.primary}" },
+      },
+      space: { $type: "dimension", sm: { $value: { value: 8, unit: "px" } } },
+      size: { $type: "dimension", $value: { value: 1, unit: "px" } },
+      opacity: { $type: "number", $value: 0.5 },
+    });
+    expect(summarize(diffVersions(before, after))).toEqual([
+      {
+        kind: "renamed",
+        container: "base",
+        path: "color.primary",
+        previousPath: "color.red",
+      },
+      { kind: "changed", container: "base", path: "color.blue" },
+      { kind: "changed", container: "base", path: "color.accent" },
+      { kind: "changed", container: "base", path: "space.sm" },
+      { kind: "type-changed", container: "base", path: "size" },
+      { kind: "added", container: "base", path: "opacity" },
+    ]);
+  });
+
+  test("lists tokens of missing sets as added or removed", () => {
+    const before = parseSet("base", {
+      space: { $type: "number", $value: 1 },
+    });
+    const after = parseSet("extra", {
+      opacity: { $type: "number", $value: 0.5 },
+    });
+    expect(summarize(diffVersions(before, after))).toEqual([
+      { kind: "removed", container: "base", path: "space" },
+      { kind: "added", container: "extra", path: "opacity" },
+    ]);
+    expect(diffVersions(before, before)).toEqual([]);
+  });
+});
+
+describe("mergeTokens", () => {
+  test("updates changed tokens in place and keeps removed by default", () => {
+    const current = parseSet("current", {
+      color: {
+        $type: "color",
+        primary: { $value: blue },
+        secondary: { $value: blue },
+      },
+    });
+    const incoming = parseSet("incoming", {
+      color: { $type: "color", primary: { $value: red } },
+    });
+    const primary = findToken(current, "primary");
+    const { nodes, deletedIds } = mergeTokens(
+      current,
+      "current",
+      incoming,
+      "incoming",
+      new Map(),
+    );
+    expect(deletedIds).toEqual([]);
+    expect(nodes).toEqual([
+      { ...primary, meta: { ...primary.meta, value: red } },
+    ]);
+  });
+
+  test("respects decisions", () => {
+    const current = parseSet("current", {
+      color: {
+        $type: "color",
+        primary: { $value: blue },
+        secondary: { $value: blue },
+      },
+    });
+    const incoming = parseSet("incoming", {
+      color: {
+        $type: "color",
+        primary: { $value: red },
+        tertiary: { $value: red },
+      },
+    });
+    const { nodes, deletedIds } = mergeTokens(
+      current,
+      "current",
+      incoming,
+      "incoming",
+      new Map([
+        ["color.primary", "current"],
+        ["color.secondary", "incoming"],
+        ["color.tertiary", "current"],
+      ]),
+    );
+    expect(nodes).toEqual([]);
+    expect(deletedIds).toEqual([findToken(current, "secondary").nodeId]);
+  });
+
+  test("adds tokens under existing groups and redirects aliases", () => {
+    const current = parseSet("current", {
+      color: { $type: "color", primary: { $value: blue } },
+    });
+    const incoming = parseSet("incoming", {
+      color: {
+        $type: "color",
+        primary: { $value: blue },
+        link: { $value: "{color.primary}" },
+      },
+      space: { $type: "dimension", md: { $value: { value: 8, unit: "px" } } },
+    });
+    const { nodes } = mergeTokens(
+      current,
+      "current",
+      incoming,
+      "incoming",
+      new Map(),
+    );
+    const colorGroup = Array.from(current.values()).find(
+      (node) => node.meta.name === "color",
+    )!;
+    const link = nodes.find((node) => node.meta.name === "link");
+    expect(link?.parentId).toBe(colorGroup.nodeId);
+    expect(link?.meta).toMatchObject({
+      value: { ref: findToken(current, "primary").nodeId },
+    });
+    const space = nodes.find((node) => node.meta.name === "space");
+    expect(space?.parentId).toBe("current");
+    expect(nodes.find((node) => node.meta.name === "md")?.parentId).toBe(
+      space?.nodeId,
+    );
+  });
+
+  test("adds rejected tokens referenced by accepted ones", () => {
+    const current = parseSet("current", {});
+    const incoming = parseSet("incoming", {
+      color: {
+        $type: "color",
+        primary: { $value: blue },
+        link: { $value: "{color.primary}" },
+      },
+    });
+    const { nodes } = mergeTokens(
+      current,
+      "current",
+      incoming,
+      "incoming",
+      new Map([["color.primary", "current"]]),
+    );
+    expect(nodes.map((node) => node.meta.name).sort()).toEqual([
+      "color",
+      "link",
+      "primary",
+    ]);
+  });
+
+  test("replaces group with incoming token of the same path", () => {
+    const current = parseSet("current", {
+      color: {
+        $type: "color",
+        brand: { light: { $value: blue }, dark: { $value: red } },
+      },
+    });
+    const incoming = parseSet("incoming", {
+      color: { $type: "color", brand: { $value: red } },
+    });
+    const brandGroup = Array.from(current.values()).find(
+      (node) => node.meta.name === "brand",
+    )!;
+    const { nodes, deletedIds } = mergeTokens(
+      current,
+      "current",
+      incoming,
+      "incoming",
+      new Map(),
+    );
+    expect(nodes).toEqual([
+      {
+        nodeId: findToken(incoming, "brand").nodeId,
+        parentId: brandGroup.parentId,
+        index: brandGroup.index,
+        meta: findToken(incoming, "brand").meta,
+      },
+    ]);
+    expect(deletedIds.sort()).toEqual(
+      [
+        brandGroup.nodeId,
+        findToken(current, "light").nodeId,
+        findToken(current, "dark").nodeId,
+      ].sort(),
+    );
+  });
+
+  test("replaces token with incoming group of the same path", () => {
+    const current = parseSet("current", {
+      color: { $type: "color", brand: { $value: red } },
+    });
+    const incoming = parseSet("incoming", {
+      color: {
+        $type: "color",
+        brand: { light: { $value: blue } },
+      },
+    });
+    const { nodes, deletedIds } = mergeTokens(
+      current,
+      "current",
+      incoming,
+      "incoming",
+      new Map(),
+    );
+    const brandGroup = nodes.find((node) => node.meta.name === "brand");
+    expect(brandGroup?.meta.nodeType).toBe("token-group");
+    expect(brandGroup?.index).toBe(findToken(current, "brand").index);
+    expect(nodes.find((node) => node.meta.name === "light")?.parentId).toBe(
+      brandGroup?.nodeId,
+    );
+    expect(deletedIds).toEqual([findToken(current, "brand").nodeId]);
+  });
+
+  test("keeps group when incoming token is rejected", () => {
+    const current = parseSet("current", {
+      color: { $type: "color", brand: { light: { $value: blue } } },
+    });
+    const incoming = parseSet("incoming", {
+      color: { $type: "color", brand: { $value: red } },
+    });
+    const { nodes, deletedIds } = mergeTokens(
+      current,
+      "current",
+      incoming,
+      "incoming",
+      new Map([["color.brand", "current"]]),
+    );
+    expect(nodes).toEqual([]);
+    expect(deletedIds).toEqual([]);
+  });
+
+  test("keeps incoming aliases to tokens of current project", () => {
+    const current = parseSet("current", {
+      color: { $type: "color", primary: { $value: blue } },
+    });
+    const incoming = parseSet(
+      "incoming",
+      { brand: { $type: "color", $value: "{color.primary}" } },
+      current,
+    );
+    const { nodes } = mergeTokens(
+      current,
+      "current",
+      incoming,
+      "incoming",
+      new Map(),
+    );
+    expect(nodes).toHaveLength(1);
+    expect(nodes[0].meta).toMatchObject({
+      name: "brand",
+      value: { ref: findToken(current, "primary").nodeId },
+    });
+  });
+});
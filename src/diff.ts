@@ -0,0 +1,424 @@
+import { generateKeyBetween } from "fractional-indexing";
+import type { TreeNode } from "./store";
+import { compareTreeNodes } from "./store";
+import { isNodeRef } from "./schema";
+import { mapNodeRefs, type TokenMeta, type TreeNodeMeta } from "./state.svelte";
+import { extractIntermediaryNodes, type IntermediaryNode } from "./tokens";
+import { serializeChildTokens } from "./resolver";
+
+export type TokenChangeKind = "added" | "removed" | "changed" | "type-changed";
+
+export type TokenChange = {
+  kind: TokenChangeKind;
+  /** dot separated path relative to set or modifier context */
+  path: string;
+  current?: TreeNode<TokenMeta>;
+  incoming?: TreeNode<TokenMeta>;
+};
+
+export type MergeDecision = "current" | "incoming";
+
+const isTokenOrGroup = (node: TreeNode<TreeNodeMeta>) => {
+  return node.meta.nodeType === "token" || node.meta.nodeType === "token-group";
+};
+
+/**
+ * Get path of token or group relative to its set or modifier context
+ */
+export const getRelativeTokenPath = (
+  nodeId: string,
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+): string[] => {
+  const path: string[] = [];
+  let current = nodes.get(nodeId);
+  while (current && isTokenOrGroup(current)) {
+    path.unshift(current.meta.name);
+    current = current.parentId ? nodes.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+/**
+ * Collect tokens and groups under set or modifier context by relative path
+ */
+export const collectNodesByPath = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  parentId: string,
+): Map<string, TreeNode<TreeNodeMeta>> => {
+  const childrenByParent = new Map<string, TreeNode<TreeNodeMeta>[]>();
+  for (const node of nodes.values()) {
+    if (node.parentId !== undefined) {
+      const children = childrenByParent.get(node.parentId) ?? [];
+      children.push(node);
+      childrenByParent.set(node.parentId, children);
+    }
+  }
+  const nodesByPath = new Map<string, TreeNode<TreeNodeMeta>>();
+  const collect = (nodeId: string, parentPath: string[]) => {
+    const children = childrenByParent.get(nodeId) ?? [];
+    for (const child of children.sort(compareTreeNodes)) {
+      if (isTokenOrGroup(child)) {
+        const path = [...parentPath, child.meta.name];
+        nodesByPath.set(path.join("."), child);
+        collect(child.nodeId, path);
+      }
+    }
+  };
+  collect(parentId, []);
+  return nodesByPath;
+};
+
+/**
+ * Stringify token value with aliases as {relative.path}
+ * to compare tokens from different trees
+ */
+export const serializeTokenValue = (
+  meta: TokenMeta,
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+): string => {
+  const toPath = (nodeId: string) =>
+    `{${getRelativeTokenPath(nodeId, nodes).join(".")}}`;
+  if (isNodeRef(meta.value)) {
+    return toPath(meta.value.ref);
+  }
+  const { value } = mapNodeRefs(meta, (nodeRef) => ({
+    ref: toPath(nodeRef.ref),
+  }));
+  return JSON.stringify(value);
+};
+
+const isTokenNode = (
+  node: undefined | TreeNode<TreeNodeMeta>,
+): node is TreeNode<TokenMeta> => {
+  return node?.meta.nodeType === "token";
+};
+
+/**
+ * Match tokens of current and incoming set or context by relative path
+ *
+ * @param lookupNodes - nodes used to find alias paths, incoming tokens may alias current ones
+ */
+export const diffTokens = (
+  currentNodes: Map<string, TreeNode<TreeNodeMeta>>,
+  currentParentId: string,
+  incomingNodes: Map<string, TreeNode<TreeNodeMeta>>,
+  incomingParentId: string,
+  lookupNodes: Map<string, TreeNode<TreeNodeMeta>> = new Map([
+    ...currentNodes,
+    ...incomingNodes,
+  ]),
+): TokenChange[] => {
+  const current = collectNodesByPath(currentNodes, currentParentId);
+  const incoming = collectNodesByPath(incomingNodes, incomingParentId);
+  const changes: TokenChange[] = [];
+  for (const [path, incomingNode] of incoming) {
+    if (!isTokenNode(incomingNode)) {
+      continue;
+    }
+    const currentNode = current.get(path);
+    if (!isTokenNode(currentNode)) {
+      changes.push({ kind: "added", path, incoming: incomingNode });
+      continue;
+    }
+    if (currentNode.meta.type !== incomingNode.meta.type) {
+      changes.push({
+        kind: "type-changed",
+        path,
+        current: currentNode,
+        incoming: incomingNode,
+      });
+      continue;
+    }
+    if (
+      serializeTokenValue(currentNode.meta, lookupNodes) !==
+        serializeTokenValue(incomingNode.meta, lookupNodes) ||
+      currentNode.meta.description !== incomingNode.meta.description ||
+      currentNode.meta.deprecated !== incomingNode.meta.deprecated
+    ) {
+      changes.push({
+        kind: "changed",
+        path,
+        current: currentNode,
+        incoming: incomingNode,
+      });
+    }
+  }
+  for (const [path, currentNode] of current) {
+    if (isTokenNode(currentNode) && !isTokenNode(incoming.get(path))) {
+      changes.push({ kind: "removed", path, current: currentNode });
+    }
+  }
+  return changes;
+};
+
+export type VersionChange = {
+  kind: TokenChangeKind | "renamed";
+  /** set name or modifier and context names like "Theme / Dark" */
+  container: string;
+  /** dot separated path relative to set or modifier context */
+  path: string;
+  /** path before token was renamed or moved */
+  previousPath?: string;
+  before?: TreeNode<TokenMeta>;
+  after?: TreeNode<TokenMeta>;
+};
+
+// project versions are matched by names since node ids are not preserved
+// when snapshot is serialized
+const collectContainers = (nodes: Map<string, TreeNode<TreeNodeMeta>>) => {
+  const containers = new Map<string, string>();
+  for (const node of nodes.values()) {
+    if (node.meta.nodeType === "token-set") {
+      containers.set(node.meta.name, node.nodeId);
+    }
+    if (node.meta.nodeType === "modifier-context" && node.parentId) {
+      const modifier = nodes.get(node.parentId);
+      containers.set(`${modifier?.meta.name} / ${node.meta.name}`, node.nodeId);
+    }
+  }
+  return containers;
+};
+
+/**
+ * Compare tokens of two project versions in every set and modifier context,
+ * removed and added tokens with the same type and value are paired as renamed
+ */
+export const diffVersions = (
+  before: Map<string, TreeNode<TreeNodeMeta>>,
+  after: Map<string, TreeNode<TreeNodeMeta>>,
+): VersionChange[] => {
+  const beforeContainers = collectContainers(before);
+  const afterContainers = collectContainers(after);
+  const containers = new Set([
+    ...beforeContainers.keys(),
+    ...afterContainers.keys(),
+  ]);
+  const lookupNodes = new Map([...before, ...after]);
+  const changes: VersionChange[] = [];
+  for (const container of containers) {
+    // missing container has no tokens
+    const tokenChanges = diffTokens(
+      before,
+      beforeContainers.get(container) ?? "",
+      after,
+      afterContainers.get(container) ?? "",
+      lookupNodes,
+    );
+    // added path -> removed token with the same type and value
+    const renamedFrom = new Map<string, TokenChange>();
+    for (const removed of tokenChanges) {
+      if (removed.kind !== "removed" || !removed.current) {
+        continue;
+      }
+      const { meta } = removed.current;
+      const value = serializeTokenValue(meta, lookupNodes);
+      const added = tokenChanges.find(
+        (change) =>
+          change.kind === "added" &&
+          !renamedFrom.has(change.path) &&
+          change.incoming?.meta.type === meta.type &&
+          serializeTokenValue(change.incoming.meta, lookupNodes) === value,
+      );
+      if (added) {
+        renamedFrom.set(added.path, removed);
+      }
+    }
+    const renamedPaths = new Set(
+      Array.from(renamedFrom.values(), (change) => change.path),
+    );
+    for (const { kind, path, current, incoming } of tokenChanges) {
+      const removed = renamedFrom.get(path);
+      if (kind === "added" && removed) {
+        changes.push({
+          kind: "renamed",
+          container,
+          path,
+          previousPath: removed.path,
+          before: removed.current,
+          after: incoming,
+        });
+      } else if (kind !== "removed" || !renamedPaths.has(path)) {
+        changes.push({
+          kind,
+          container,
+          path,
+          before: current,
+          after: incoming,
+        });
+      }
+    }
+  }
+  return changes;
+};
+
+/**
+ * Incoming side is accepted by default except removals
+ * so merging partial files does not delete tokens
+ */
+export const getDefaultDecision = (kind: TokenChangeKind): MergeDecision => {
+  return kind === "removed" ? "current" : "incoming";
+};
+
+/**
+ * Apply accepted incoming changes to set or modifier context.
+ * Updated tokens keep their node ids so existing aliases stay intact,
+ * incoming aliases are redirected to current tokens with the same path
+ * and added tokens referenced by accepted tokens are added as well.
+ * Token replaced by group or group replaced by token is deleted
+ * with its descendants.
+ *
+ * @returns nodes to set and node ids to delete
+ */
+export const mergeTokens = (
+  currentNodes: Map<string, TreeNode<TreeNodeMeta>>,
+  currentParentId: string,
+  incomingNodes: Map<string, TreeNode<TreeNodeMeta>>,
+  incomingParentId: string,
+  decisions: Map<string, MergeDecision>,
+): { nodes: TreeNode<TreeNodeMeta>[]; deletedIds: string[] } => {
+  const current = collectNodesByPath(currentNodes, currentParentId);
+  const incoming = collectNodesByPath(incomingNodes, incomingParentId);
+  const changes = diffTokens(
+    currentNodes,
+    currentParentId,
+    incomingNodes,
+    incomingParentId,
+  );
+  const result = new Map<string, TreeNode<TreeNodeMeta>>();
+  const deletedIds = new Set<string>();
+  const lastIndexByParent = new Map<string, null | string>();
+
+  const getNextIndex = (parentId: string) => {
+    let lastIndex = lastIndexByParent.get(parentId);
+    if (lastIndex === undefined) {
+      lastIndex = null;
+      for (const node of currentNodes.values()) {
+        if (
+          node.parentId === parentId &&
+          (lastIndex === null || node.index > lastIndex)
+        ) {
+          lastIndex = node.index;
+        }
+      }
+    }
+    const index = generateKeyBetween(lastIndex, null);
+    lastIndexByParent.set(parentId, index);
+    return index;
+  };
+
+  const deleteWithDescendants = (path: string) => {
+    for (const [currentPath, node] of current) {
+      if (currentPath === path || currentPath.startsWith(`${path}.`)) {
+        deletedIds.add(node.nodeId);
+      }
+    }
+  };
+
+  // added tokens and groups reuse incoming node ids
+  const getTargetId = (path: string): string => {
+    const currentNode = current.get(path);
+    const incomingNode = incoming.get(path);
+    if (
+      currentNode &&
+      (!incomingNode ||
+        currentNode.meta.nodeType === incomingNode.meta.nodeType)
+    ) {
+      return currentNode.nodeId;
+    }
+    if (!incomingNode) {
+      throw Error(`Token "${path}" is not found`);
+    }
+    if (!result.has(incomingNode.nodeId)) {
+      const parentPath = path.split(".").slice(0, -1).join(".");
+      const parentId = parentPath ? getTargetId(parentPath) : currentParentId;
+      const node: TreeNode<TreeNodeMeta> = {
+        nodeId: incomingNode.nodeId,
+        parentId,
+        // replaced node keeps its position
+        index: currentNode?.index ?? getNextIndex(parentId),
+        meta: incomingNode.meta,
+      };
+      if (currentNode) {
+        deleteWithDescendants(path);
+      }
+      result.set(node.nodeId, node);
+      if (isTokenNode(node)) {
+        node.meta = remapRefs(node.meta);
+      }
+    }
+    return incomingNode.nodeId;
+  };
+
+  const remapRefs = (meta: TokenMeta) => {
+    return mapNodeRefs(meta, (nodeRef) => {
+      // aliases to current tokens outside of incoming tree are kept
+      if (!incomingNodes.has(nodeRef.ref)) {
+        return nodeRef;
+      }
+      const path = getRelativeTokenPath(nodeRef.ref, incomingNodes).join(".");
+      return { ref: getTargetId(path) };
+    });
+  };
+
+  for (const change of changes) {
+    const decision =
+      decisions.get(change.path) ?? getDefaultDecision(change.kind);
+    if (decision !== "incoming") {
+      continue;
+    }
+    if (change.kind === "added") {
+      getTargetId(change.path);
+    }
+    if (
+      (change.kind === "changed" || change.kind === "type-changed") &&
+      change.current &&
+      change.incoming
+    ) {
+      result.set(change.current.nodeId, {
+        ...change.current,
+        meta: {
+          ...remapRefs(change.incoming.meta),
+          name: change.current.meta.name,
+        },
+      });
+    }
+    if (change.kind === "removed" && change.current) {
+      deletedIds.add(change.current.nodeId);
+    }
+  }
+  return { nodes: Array.from(result.values()), deletedIds: [...deletedIds] };
+};
+
+/**
+ * Intermediary nodes of all sets and modifier contexts keeping node ids,
+ * imported tokens can alias tokens of current project this way
+ */
+export const getAvailableIntermediaryNodes = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+): Map<string, IntermediaryNode> => {
+  const available = new Map<string, IntermediaryNode>();
+  const containers = Array.from(nodes.values()).filter(
+    (node) =>
+      node.meta.nodeType === "token-set" ||
+      node.meta.nodeType === "modifier-context",
+  );
+  // tokens from sets take precedence over modifier contexts
+  containers.sort(
+    (a, b) =>
+      Number(a.meta.nodeType === "token-set") -
+      Number(b.meta.nodeType === "token-set"),
+  );
+  for (const container of containers) {
+    const nodesByPath = collectNodesByPath(nodes, container.nodeId);
+    const { nodes: intermediaryNodes } = extractIntermediaryNodes(
+      serializeChildTokens(nodes, container.nodeId),
+    );
+    for (const [path, intermediaryNode] of intermediaryNodes) {
+      const node = nodesByPath.get(path);
+      if (node) {
+        available.set(path, { ...intermediaryNode, nodeId: node.nodeId });
+      }
+    }
+  }
+  return available;
+};
@@ -0,0 +1,296 @@
+import { test, expect, describe } from "vitest";
+import {
+  isFigmaVariablesFormat,
+  parseFigmaVariables,
+  serializeFigmaVariables,
+  type FigmaVariablesFile,
+} from "./figma";
+import { parseDesignTokens } from "./tokens";
+import { resolveDesignTokens } from "./resolver";
+import { resolveTokenValue, type TreeNodeMeta } from "./state.svelte";
+import type { TreeNode } from "./store";
+
+const nodesToMap = (nodes: TreeNode<TreeNodeMeta>[]) => {
+  return new Map(nodes.map((node) => [node.nodeId, node]));
+};
+
+const figmaFile: FigmaVariablesFile = {
+  meta: {
+    variableCollections: {
+      "VariableCollectionId:1:0": {
+        id: "VariableCollectionId:1:0",
+        name: "Primitives",
+        modes: [{ modeId: "1:0", name: "Value" }],
+        defaultModeId: "1:0",
+        variableIds: ["VariableID:1:1", "VariableID:1:2", "VariableID:1:3"],
+      },
+      "VariableCollectionId:2:0": {
+        id: "VariableCollectionId:2:0",
+        name: "Theme",
+        modes: [
+          { modeId: "2:0", name: "Light" },
+          { modeId: "2:1", name: "Dark" },
+        ],
+        defaultModeId: "2:0",
+        variableIds: ["VariableID:2:1"],
+      },
+    },
+    variables: {
+      "VariableID:1:1": {
+        id: "VariableID:1:1",
+        name: "color/white",
+        variableCollectionId: "VariableCollectionId:1:0",
+        resolvedType: "COLOR",
+        valuesByMode: { "1:0": { r: 1, g: 1, b: 1, a: 1 } },
+        scopes: ["ALL_SCOPES"],
+      },
+      "VariableID:1:2": {
+        id: "VariableID:1:2",
+        name: "color/black",
+        variableCollectionId: "VariableCollectionId:1:0",
+        resolvedType: "COLOR",
+        valuesByMode: { "1:0": { r: 0, g: 0, b: 0, a: 0.5 } },
+        description: "Overlay",
+        scopes: ["ALL_SCOPES"],
+      },
+      "VariableID:1:3": {
+        id: "VariableID:1:3",
+        name: "space/md",
+        variableCollectionId: "VariableCollectionId:1:0",
+        resolvedType: "FLOAT",
+        valuesByMode: { "1:0": 16 },
+        scopes: ["GAP"],
+      },
+      "VariableID:2:1": {
+        id: "VariableID:2:1",
+        name: "surface",
+        variableCollectionId: "VariableCollectionId:2:0",
+        resolvedType: "COLOR",
+        valuesByMode: {
+          "2:0": { type: "VARIABLE_ALIAS", id: "VariableID:1:1" },
+          "2:1": { type: "VARIABLE_ALIAS", id: "VariableID:1:2" },
+        },
+        scopes: ["FRAME_FILL"],
+      },
+    },
+  },
+};
+
+describe("parseFigmaVariables", () => {
+  test("detects figma variables with and without meta wrapper", () => {
+    expect(isFigmaVariablesFormat(figmaFile)).toBe(true);
+    expect(isFigmaVariablesFormat(figmaFile.meta)).toBe(true);
+    expect(isFigmaVariablesFormat({ color: {} })).toBe(false);
+  });
+
+  test("converts collections into modifiers and modes into contexts", () => {
+    const { nodes, errors } = parseFigmaVariables(figmaFile);
+    expect(errors).toEqual([]);
+    const modifiers = nodes.filter((node) => node.meta.nodeType === "modifier");
+    expect(modifiers.map((node) => node.meta)).toEqual([
+      { nodeType: "modifier", name: "Primitives", default: "Value" },
+      { nodeType: "modifier", name: "Theme", default: "Light" },
+    ]);
+    const contexts = nodes.filter(
+      (node) => node.meta.nodeType === "modifier-context",
+    );
+    expect(contexts.map((node) => node.meta.name)).toEqual([
+      "Value",
+      "Light",
+      "Dark",
+    ]);
+    const findToken = (name: string) =>
+      nodes.find(
+        (node) => node.meta.nodeType === "token" && node.meta.name === name,
+      )!;
+    expect(findToken("black").meta).toEqual({
+      nodeType: "token",
+      name: "black",
+      type: "color",
+      value: { colorSpace: "srgb", components: [0, 0, 0], alpha: 0.5 },
+      description: "Overlay",
+      extensions: { "com.figma": { scopes: ["ALL_SCOPES"] } },
+    });
+    expect(findToken("md").meta).toMatchObject({
+      type: "dimension",
+      value: { value: 16, unit: "px" },
+    });
+  });
+
+  test("converts aliases into node references", () => {
+    const { nodes } = parseFigmaVariables(figmaFile);
+    const map = nodesToMap(nodes);
+    const surfaces = nodes.filter((node) => node.meta.name === "surface");
+    expect(surfaces).toHaveLength(2);
+    const [light, dark] = surfaces.map((node) => resolveTokenValue(node, map));
+    expect(light).toEqual({
+      type: "color",
+      value: { colorSpace: "srgb", components: [1, 1, 1] },
+    });
+    expect(dark).toEqual({
+      type: "color",
+      value: { colorSpace: "srgb", components: [0, 0, 0], alpha: 0.5 },
+    });
+  });
+
+  test("reports boolean variables and missing aliases", () => {
+    const { errors } = parseFigmaVariables({
+      variableCollections: [
+        {
+          id: "c",
+          name: "Flags",
+          modes: [{ modeId: "m", name: "Default" }],
+          defaultModeId: "m",
+        },
+      ],
+      variables: [
+        {
+          id: "a",
+          name: "enabled",
+          variableCollectionId: "c",
+          resolvedType: "BOOLEAN",
+          valuesByMode: { m: true },
+        },
+        {
+          id: "b",
+          name: "brand",
+          variableCollectionId: "c",
+          resolvedType: "COLOR",
+          valuesByMode: { m: { type: "VARIABLE_ALIAS", id: "remote" } },
+        },
+      ],
+    });
+    expect(errors).toEqual([
+      { path: "Flags/enabled", message: "Boolean variables are not supported" },
+      { path: "Flags/brand", message: "Alias to missing variable remote" },
+    ]);
+  });
+});
+
+describe("serializeFigmaVariables", () => {
+  test("round trips imported variables", () => {
+    const { nodes } = parseFigmaVariables(figmaFile);
+    const { file, errors } = serializeFigmaVariables(nodesToMap(nodes));
+    expect(errors).toEqual([]);
+    expect(file.meta.variableCollections).toEqual({
+      "VariableCollectionId:1:0": {
+        id: "VariableCollectionId:1:0",
+        name: "Primitives",
+        modes: [{ modeId: "1:0", name: "Value" }],
+        defaultModeId: "1:0",
+        variableIds: ["VariableID:1:1", "VariableID:1:2", "VariableID:1:3"],
+        hiddenFromPublishing: false,
+      },
+      "VariableCollectionId:2:0": {
+        id: "VariableCollectionId:2:0",
+        name: "Theme",
+        modes: [
+          { modeId: "2:0", name: "Light" },
+          { modeId: "2:1", name: "Dark" },
+        ],
+        defaultModeId: "2:0",
+        variableIds: ["VariableID:2:1"],
+        hiddenFromPublishing: false,
+      },
+    });
+    expect(file.meta.variables["VariableID:1:2"]).toEqual({
+      id: "VariableID:1:2",
+      name: "color/black",
+      variableCollectionId: "VariableCollectionId:1:0",
+      resolvedType: "COLOR",
+      valuesByMode: { "1:0": { r: 0, g: 0, b: 0, a: 0.5 } },
+      description: "Overlay",
+      hiddenFromPublishing: false,
+      scopes: ["ALL_SCOPES"],
+      codeSyntax: {},
+    });
+    expect(file.meta.variables["VariableID:2:1"]).toMatchObject({
+      name: "surface",
+      valuesByMode: {
+        "2:0": { type: "VARIABLE_ALIAS", id: "VariableID:1:1" },
+        "2:1": { type: "VARIABLE_ALIAS", id: "VariableID:1:2" },
+      },
+      scopes: ["FRAME_FILL"],
+    });
+
+    // exported file is imported back into the same tree
+    const reimported = parseFigmaVariables(file);
+    expect(reimported.errors).toEqual([]);
+    const getResolvedValues = (nodes: TreeNode<TreeNodeMeta>[]) => {
+      const resolved = resolveDesignTokens(nodesToMap(nodes));
+      return Array.from(resolved.values())
+        .filter((node) => node.meta.nodeType === "token")
+        .map((node) => [node.meta.name, resolveTokenValue(node, resolved)]);
+    };
+    expect(getResolvedValues(reimported.nodes)).toEqual(
+      getResolvedValues(nodes),
+    );
+  });
+
+  test("exports sets as single mode collections and reports unsupported types", () => {
+    const parsed = parseDesignTokens({
+      space: {
+        $type: "dimension",
+        lg: { $value: { value: 2, unit: "rem" } },
+      },
+      opacity: { $type: "number", $value: 0.5 },
+      font: {
+        body: { $type: "fontFamily", $value: ["Inter", "sans-serif"] },
+        bold: { $type: "fontWeight", $value: "bold" },
+      },
+      ease: { $type: "cubicBezier", $value: [0, 0, 1, 1] },
+    });
+    const nodes = nodesToMap([
+      {
+        nodeId: "set",
+        parentId: undefined,
+        index: "a0",
+        meta: { nodeType: "token-set", name: "Base" },
+      },
+      ...parsed.nodes.map((node) => ({
+        ...node,
+        parentId: node.parentId ?? "set",
+      })),
+    ]);
+    const { file, errors } = serializeFigmaVariables(nodes);
+    expect(errors).toEqual([
+      '"ease" of type cubicBezier is not supported by figma variables',
+    ]);
+    expect(Object.values(file.meta.variableCollections)).toMatchObject([
+      { name: "Base", modes: [{ modeId: "1:0", name: "Mode 1" }] },
+    ]);
+    expect(
+      Object.values(file.meta.variables).map((variable) => ({
+        name: variable.name,
+        resolvedType: variable.resolvedType,
+        value: variable.valuesByMode["1:0"],
+        scopes: variable.scopes,
+      })),
+    ).toEqual([
+      {
+        name: "space/lg",
+        resolvedType: "FLOAT",
+        value: 32,
+        scopes: ["ALL_SCOPES"],
+      },
+      {
+        name: "opacity",
+        resolvedType: "FLOAT",
+        value: 0.5,
+        scopes: ["OPACITY"],
+      },
+      {
+        name: "font/body",
+        resolvedType: "STRING",
+        value: "Inter",
+        scopes: ["FONT_FAMILY"],
+      },
+      {
+        name: "font/bold",
+        resolvedType: "FLOAT",
+        value: 700,
+        scopes: ["FONT_WEIGHT"],
+      },
+    ]);
+  });
+});
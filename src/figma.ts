@@ -0,0 +1,567 @@
+// Figma variables in the format of local variables REST API response
+// https://www.figma.com/developers/api#get-local-variables-endpoint
+
+import { z, prettifyError } from "zod";
+import { generateKeyBetween } from "fractional-indexing";
+import type { TreeNode } from "./store";
+import type {
+  ModifierContextMeta,
+  ModifierMeta,
+  TokenMeta,
+  TreeNodeMeta,
+} from "./state.svelte";
+import {
+  isNodeRef,
+  toNumericFontWeight,
+  type ColorValue,
+  type DimensionValue,
+  type FontFamilyValue,
+  type RawValue,
+} from "./schema";
+import type { FontWeightValue } from "./dtcg.schema";
+import { convertColor } from "./color";
+import { buildChildrenByParent, visitTokens } from "./css-variables";
+
+const figmaColorSchema = z.object({
+  r: z.number(),
+  g: z.number(),
+  b: z.number(),
+  a: z.number().optional(),
+});
+
+const figmaAliasSchema = z.object({
+  type: z.literal("VARIABLE_ALIAS"),
+  id: z.string(),
+});
+
+const figmaVariableValueSchema = z.union([
+  z.boolean(),
+  z.number(),
+  z.string(),
+  figmaColorSchema,
+  figmaAliasSchema,
+]);
+
+const figmaVariableSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  variableCollectionId: z.string(),
+  resolvedType: z.enum(["BOOLEAN", "FLOAT", "STRING", "COLOR"]),
+  valuesByMode: z.record(z.string(), figmaVariableValueSchema),
+  description: z.string().optional(),
+  hiddenFromPublishing: z.boolean().optional(),
+  scopes: z.array(z.string()).optional(),
+  codeSyntax: z.record(z.string(), z.string()).optional(),
+});
+
+const figmaVariableCollectionSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  modes: z.array(z.object({ modeId: z.string(), name: z.string() })).min(1),
+  defaultModeId: z.string(),
+  variableIds: z.array(z.string()).optional(),
+  hiddenFromPublishing: z.boolean().optional(),
+});
+
+// plugin exports store lists while rest api stores records by id
+const recordOrArray = <T extends z.ZodType>(schema: T) =>
+  z.union([z.record(z.string(), schema), z.array(schema)]);
+
+const figmaVariablesSchema = z.object({
+  variableCollections: recordOrArray(figmaVariableCollectionSchema),
+  variables: recordOrArray(figmaVariableSchema),
+});
+
+export type FigmaColor = z.infer<typeof figmaColorSchema>;
+export type FigmaAlias = z.infer<typeof figmaAliasSchema>;
+export type FigmaVariableValue = z.infer<typeof figmaVariableValueSchema>;
+export type FigmaVariable = z.infer<typeof figmaVariableSchema>;
+export type FigmaVariableCollection = z.infer<
+  typeof figmaVariableCollectionSchema
+>;
+
+export type FigmaVariablesFile = {
+  meta: {
+    variableCollections: Record<string, FigmaVariableCollection>;
+    variables: Record<string, FigmaVariable>;
+  };
+};
+
+/** keeps figma scopes and code syntax of imported variables for export */
+export const figmaExtensionKey = "com.figma";
+
+type FigmaExtension = {
+  scopes?: string[];
+  codeSyntax?: Record<string, string>;
+};
+
+// scopes applicable only to unitless numbers, others are pixels
+const numberScopes = new Set(["OPACITY", "FONT_WEIGHT"]);
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+};
+
+// api response wraps collections and variables with meta
+const unwrapMeta = (input: unknown) => {
+  return isObject(input) && isObject(input.meta) ? input.meta : input;
+};
+
+export const isFigmaVariablesFormat = (input: unknown): boolean => {
+  const data = unwrapMeta(input);
+  return (
+    isObject(data) &&
+    data.variableCollections !== undefined &&
+    data.variables !== undefined
+  );
+};
+
+const getTokenType = (variable: FigmaVariable) => {
+  switch (variable.resolvedType) {
+    case "COLOR":
+      return "color";
+    case "FLOAT": {
+      const scopes = variable.scopes ?? [];
+      const isNumber =
+        scopes.length > 0 && scopes.every((scope) => numberScopes.has(scope));
+      return isNumber ? "number" : "dimension";
+    }
+    case "STRING":
+      return "fontFamily";
+  }
+};
+
+const toTokenValue = (
+  type: NonNullable<ReturnType<typeof getTokenType>>,
+  value: FigmaVariableValue,
+) => {
+  if (type === "color") {
+    const color = figmaColorSchema.safeParse(value);
+    if (color.success) {
+      const { r, g, b, a = 1 } = color.data;
+      const colorValue: ColorValue = {
+        colorSpace: "srgb",
+        components: [r, g, b],
+      };
+      if (a !== 1) {
+        colorValue.alpha = a;
+      }
+      return colorValue;
+    }
+  }
+  if (type === "dimension" && typeof value === "number") {
+    return { value, unit: "px" };
+  }
+  if (type === "number" && typeof value === "number") {
+    return value;
+  }
+  if (type === "fontFamily" && typeof value === "string") {
+    return value;
+  }
+  throw Error(`Invalid ${type} value ${JSON.stringify(value)}`);
+};
+
+/**
+ * Convert figma variables into modifiers with a context per mode,
+ * variable names like "color/primary" become groups and tokens.
+ * Aliases point to tokens of the same mode within collection
+ * and to default mode of other collections.
+ */
+export const parseFigmaVariables = (
+  input: unknown,
+): {
+  nodes: TreeNode<TreeNodeMeta>[];
+  errors: Array<{ path: string; message: string }>;
+} => {
+  const validation = figmaVariablesSchema.safeParse(unwrapMeta(input));
+  if (!validation.success) {
+    return {
+      nodes: [],
+      errors: [{ path: "figma", message: prettifyError(validation.error) }],
+    };
+  }
+  const collections = Object.values(validation.data.variableCollections);
+  const variables = Object.values(validation.data.variables);
+  const variableById = new Map(
+    variables.map((variable) => [variable.id, variable]),
+  );
+  const collectionById = new Map(
+    collections.map((collection) => [collection.id, collection]),
+  );
+  const nodes: TreeNode<TreeNodeMeta>[] = [];
+  const errors: Array<{ path: string; message: string }> = [];
+  const lastIndexByParent = new Map<undefined | string, string>();
+  const getNextIndex = (parentId: undefined | string) => {
+    const index = generateKeyBetween(
+      lastIndexByParent.get(parentId) ?? null,
+      null,
+    );
+    lastIndexByParent.set(parentId, index);
+    return index;
+  };
+  const createNode = (parentId: undefined | string, meta: TreeNodeMeta) => {
+    const node: TreeNode<TreeNodeMeta> = {
+      nodeId: crypto.randomUUID(),
+      parentId,
+      index: getNextIndex(parentId),
+      meta,
+    };
+    nodes.push(node);
+    return node;
+  };
+
+  // "variableId/modeId" -> token node id
+  const tokenIds = new Map<string, string>();
+  // tokens are created when ids of all alias targets are known
+  const pendingTokens: Array<{
+    nodeId: string;
+    parentId: string;
+    index: string;
+    name: string;
+    variable: FigmaVariable;
+    modeId: string;
+  }> = [];
+
+  for (const collection of collections) {
+    const collectionVariables = collection.variableIds
+      ? collection.variableIds.flatMap((id) => variableById.get(id) ?? [])
+      : variables.filter(
+          (variable) => variable.variableCollectionId === collection.id,
+        );
+    for (const variable of collectionVariables) {
+      if (variable.resolvedType === "BOOLEAN") {
+        errors.push({
+          path: `${collection.name}/${variable.name}`,
+          message: "Boolean variables are not supported",
+        });
+      }
+    }
+    const modifierMeta: ModifierMeta = {
+      nodeType: "modifier",
+      name: collection.name,
+      default: collection.modes.find(
+        (mode) => mode.modeId === collection.defaultModeId,
+      )?.name,
+    };
+    const modifier = createNode(undefined, modifierMeta);
+    for (const mode of collection.modes) {
+      const contextMeta: ModifierContextMeta = {
+        nodeType: "modifier-context",
+        name: mode.name,
+      };
+      const context = createNode(modifier.nodeId, contextMeta);
+      const groupIds = new Map<string, string>();
+      for (const variable of collectionVariables) {
+        if (variable.resolvedType === "BOOLEAN") {
+          continue;
+        }
+        // dots separate groups in references
+        const names = variable.name
+          .split("/")
+          .map((name) => name.trim().replaceAll(".", "-"))
+          .filter(Boolean);
+        let parentId = context.nodeId;
+        for (let index = 0; index < names.length - 1; index += 1) {
+          const key = names.slice(0, index + 1).join("/");
+          let groupId = groupIds.get(key);
+          if (!groupId) {
+            groupId = createNode(parentId, {
+              nodeType: "token-group",
+              name: names[index],
+            }).nodeId;
+            groupIds.set(key, groupId);
+          }
+          parentId = groupId;
+        }
+        const nodeId = crypto.randomUUID();
+        tokenIds.set(`${variable.id}/${mode.modeId}`, nodeId);
+        pendingTokens.push({
+          nodeId,
+          parentId,
+          index: getNextIndex(parentId),
+          name: names.at(-1) ?? variable.id,
+          variable,
+          modeId: mode.modeId,
+        });
+      }
+    }
+  }
+
+  for (const {
+    nodeId,
+    parentId,
+    index,
+    name,
+    variable,
+    modeId,
+  } of pendingTokens) {
+    const collection = collectionById.get(variable.variableCollectionId);
+    const type = getTokenType(variable)!;
+    const value =
+      variable.valuesByMode[modeId] ??
+      variable.valuesByMode[collection?.defaultModeId ?? ""];
+    const extension: FigmaExtension = {};
+    if (variable.scopes) {
+      extension.scopes = variable.scopes;
+    }
+    if (variable.codeSyntax && Object.keys(variable.codeSyntax).length > 0) {
+      extension.codeSyntax = variable.codeSyntax;
+    }
+    try {
+      let tokenValue: unknown;
+      const alias = figmaAliasSchema.safeParse(value);
+      if (alias.success) {
+        const target = variableById.get(alias.data.id);
+        const targetModeId =
+          target?.variableCollectionId === variable.variableCollectionId
+            ? modeId
+            : collectionById.get(target?.variableCollectionId ?? "")
+                ?.defaultModeId;
+        const ref = tokenIds.get(`${alias.data.id}/${targetModeId}`);
+        if (!ref) {
+          throw Error(`Alias to missing variable ${alias.data.id}`);
+        }
+        tokenValue = { ref };
+      } else {
+        tokenValue = toTokenValue(type, value);
+      }
+      const meta = {
+        nodeType: "token",
+        name,
+        type,
+        value: tokenValue,
+        ...(variable.description && { description: variable.description }),
+        ...(Object.keys(extension).length > 0 && {
+          extensions: { [figmaExtensionKey]: extension },
+        }),
+      } as TokenMeta;
+      nodes.push({ nodeId, parentId, index, meta });
+    } catch (error) {
+      errors.push({
+        path: `${collection?.name}/${variable.name}`,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return { nodes, errors };
+};
+
+const defaultScopes: Record<FigmaVariable["resolvedType"], string[]> = {
+  BOOLEAN: ["ALL_SCOPES"],
+  COLOR: ["ALL_SCOPES"],
+  FLOAT: ["ALL_SCOPES"],
+  STRING: ["FONT_FAMILY"],
+};
+
+const toFigmaColor = (value: ColorValue): FigmaColor => {
+  const color = convertColor(value, "srgb");
+  const [r, g, b] = color.components.map((component) =>
+    component === "none" ? 0 : Math.min(Math.max(component, 0), 1),
+  );
+  return { r, g, b, a: color.alpha ?? 1 };
+};
+
+const resolvedTypes: Partial<
+  Record<TokenMeta["type"], FigmaVariable["resolvedType"]>
+> = {
+  color: "COLOR",
+  dimension: "FLOAT",
+  number: "FLOAT",
+  fontWeight: "FLOAT",
+  fontFamily: "STRING",
+};
+
+// unitless numbers are scoped to opacity so they are imported back as numbers
+const scopesByType: Partial<Record<TokenMeta["type"], string[]>> = {
+  number: ["OPACITY"],
+  fontWeight: ["FONT_WEIGHT"],
+};
+
+// aliases are resolved separately
+const toFigmaValue = (
+  meta: TokenMeta,
+  remBase: number,
+): undefined | FigmaVariableValue => {
+  const value = meta.value as RawValue["value"];
+  switch (meta.type) {
+    case "color":
+      return toFigmaColor(value as ColorValue);
+    case "dimension": {
+      const dimension = value as DimensionValue;
+      return dimension.unit === "rem"
+        ? dimension.value * remBase
+        : dimension.value;
+    }
+    case "number":
+      return value as number;
+    case "fontWeight":
+      return toNumericFontWeight(value as FontWeightValue);
+    case "fontFamily": {
+      const fontFamily = value as FontFamilyValue;
+      return Array.isArray(fontFamily) ? fontFamily[0] : fontFamily;
+    }
+  }
+};
+
+export type FigmaExportOptions = {
+  /** pixels in one rem */
+  remBase?: number;
+};
+
+/**
+ * Generate figma variables file from sets and modifiers,
+ * every modifier becomes collection with mode per context
+ * and every set becomes collection with single mode.
+ * Only color, dimension, number, fontWeight and fontFamily tokens are exported.
+ */
+export const serializeFigmaVariables = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  options: FigmaExportOptions = {},
+): { file: FigmaVariablesFile; errors: string[] } => {
+  const { remBase = 16 } = options;
+  const childrenByParent = buildChildrenByParent(nodes);
+  const errors: string[] = [];
+  const variableCollections: Record<string, FigmaVariableCollection> = {};
+  const variables: Record<string, FigmaVariable> = {};
+  // token node id -> variable id
+  const variableIds = new Map<string, string>();
+  const pendingAliases: Array<{
+    variable: FigmaVariable;
+    modeId: string;
+    ref: string;
+  }> = [];
+
+  const addCollection = (
+    name: string,
+    modes: Array<{ name: string; roots: TreeNode<TreeNodeMeta>[] }>,
+    defaultMode?: string,
+  ) => {
+    const collectionIndex = Object.keys(variableCollections).length + 1;
+    const collection: FigmaVariableCollection = {
+      id: `VariableCollectionId:${collectionIndex}:0`,
+      name,
+      modes: modes.map((mode, index) => ({
+        modeId: `${collectionIndex}:${index}`,
+        name: mode.name,
+      })),
+      defaultModeId: `${collectionIndex}:0`,
+      variableIds: [],
+      hiddenFromPublishing: false,
+    };
+    const defaultModeIndex = modes.findIndex(
+      (mode) => mode.name === defaultMode,
+    );
+    if (defaultModeIndex !== -1) {
+      collection.defaultModeId = collection.modes[defaultModeIndex].modeId;
+    }
+    const variableByName = new Map<string, FigmaVariable>();
+    modes.forEach(({ roots }, index) => {
+      const { modeId } = collection.modes[index];
+      for (const root of roots) {
+        visitTokens(root, [], childrenByParent, (token, path) => {
+          if (token.meta.nodeType !== "token") {
+            return;
+          }
+          const name = path.join("/");
+          const resolvedType = resolvedTypes[token.meta.type];
+          if (!resolvedType) {
+            errors.push(
+              `"${path.join(".")}" of type ${token.meta.type} is not supported by figma variables`,
+            );
+            return;
+          }
+          let variable = variableByName.get(name);
+          if (!variable) {
+            const extension = token.meta.extensions?.[figmaExtensionKey] as
+              | undefined
+              | FigmaExtension;
+            variable = {
+              id: `VariableID:${collectionIndex}:${variableByName.size + 1}`,
+              name,
+              variableCollectionId: collection.id,
+              resolvedType,
+              valuesByMode: {},
+              description: token.meta.description ?? "",
+              hiddenFromPublishing: false,
+              scopes:
+                extension?.scopes ??
+                scopesByType[token.meta.type] ??
+                defaultScopes[resolvedType],
+              codeSyntax: extension?.codeSyntax ?? {},
+            };
+            variableByName.set(name, variable);
+            collection.variableIds?.push(variable.id);
+            variables[variable.id] = variable;
+          }
+          variableIds.set(token.nodeId, variable.id);
+          if (isNodeRef(token.meta.value)) {
+            pendingAliases.push({
+              variable,
+              modeId,
+              ref: token.meta.value.ref,
+            });
+          } else {
+            const value = toFigmaValue(token.meta, remBase);
+            if (value !== undefined) {
+              variable.valuesByMode[modeId] = value;
+            }
+          }
+        });
+      }
+    });
+    variableCollections[collection.id] = collection;
+  };
+
+  const plainRoots: TreeNode<TreeNodeMeta>[] = [];
+  const visitContainers = (parentId: undefined | string) => {
+    for (const node of childrenByParent.get(parentId) ?? []) {
+      if (node.meta.nodeType === "resolver") {
+        visitContainers(node.nodeId);
+      } else if (node.meta.nodeType === "token-set") {
+        addCollection(node.meta.name, [{ name: "Mode 1", roots: [node] }]);
+      } else if (node.meta.nodeType === "modifier") {
+        const contexts = childrenByParent.get(node.nodeId) ?? [];
+        addCollection(
+          node.meta.name,
+          contexts.map((context) => ({
+            name: context.meta.name,
+            roots: [context],
+          })),
+          node.meta.default,
+        );
+      } else {
+        plainRoots.push(node);
+      }
+    }
+  };
+  visitContainers(undefined);
+  if (plainRoots.length > 0) {
+    addCollection("Tokens", [{ name: "Mode 1", roots: plainRoots }]);
+  }
+
+  for (const { variable, modeId, ref } of pendingAliases) {
+    const id = variableIds.get(ref);
+    if (id) {
+      const alias: FigmaAlias = { type: "VARIABLE_ALIAS", id };
+      variable.valuesByMode[modeId] = alias;
+    } else {
+      errors.push(`"${variable.name}" references unsupported token`);
+    }
+  }
+
+  // every variable needs value in every mode of its collection
+  for (const variable of Object.values(variables)) {
+    const collection = variableCollections[variable.variableCollectionId];
+    const fallback =
+      variable.valuesByMode[collection.defaultModeId] ??
+      Object.values(variable.valuesByMode)[0];
+    for (const { modeId } of collection.modes) {
+      variable.valuesByMode[modeId] ??= fallback;
+    }
+  }
+  return {
+    file: { meta: { variableCollections, variables } },
+    // same token may be reported in several modes
+    errors: Array.from(new Set(errors)),
+  };
+};
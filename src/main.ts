@@ -4,7 +4,8 @@ import App from "./app.svelte";
 import "./app.css";
 import { parseDesignTokens } from "./tokens";
 import { treeState, type SetMeta, type ResolverMeta } from "./state.svelte";
-import { getDataFromUrl } from "./url-data";
+import { getDataFromUrl, removeDataFromUrl } from "./url-data";
+import { projectLibrary } from "./projects.svelte";
 import type { TreeNode } from "./store";
 import {
   isResolverFormat,
@@ -66,7 +67,9 @@ const loadDefaultTokens = async () => {
   return resolveResolverRefs(resolverDoc, { baseUrl });
 };
 
-// Get design tokens from URL or load all resolvers
+const readOnly = __READ_ONLY__;
+
+// Get design tokens from URL, last opened project or load all resolvers
 console.time("total-load");
 console.time("url-check");
 const urlData = await getDataFromUrl();
@@ -121,7 +124,7 @@ if (urlData) {
       });
     }
   }
-} else {
+} else if (readOnly || !(await projectLibrary.openLast())) {
   // Load all resolver files and create resolver nodes for each
   console.time("load-resolvers");
   const resolvers = await loadAllResolvers();
@@ -184,8 +187,21 @@ const totalNodes = allParsedResults.reduce((sum, r) => sum + r.nodes.length, 0);
 console.info(`Loaded design tokens: ${totalNodes} nodes`);
 console.timeEnd("total-load");
 
-// Enable URL sync after initial load
-treeState.enableUrlSync();
+// Shared snapshot or default tokens are stored as new project
+if (!readOnly && !projectLibrary.current) {
+  await projectLibrary.create(
+    urlData ? "Shared project" : "Untitled",
+    treeState.values(),
+  );
+  removeDataFromUrl();
+}
+
+// Initial load should not be undoable
+treeState.clearHistory();
+// Enable autosave after initial load
+if (!readOnly) {
+  treeState.enableAutosave((nodes) => projectLibrary.save(nodes));
+}
 
 console.time("mount");
 mount(App, { target: document.body });
@@ -0,0 +1,49 @@
+import { test, expect, describe } from "vitest";
+import { resolveValues, toNumber } from "./native";
+import { parseDesignTokens } from "./tokens";
+import type { TreeNode } from "./store";
+import type { TreeNodeMeta } from "./state.svelte";
+
+const nodesToMap = (nodes: TreeNode<TreeNodeMeta>[]) => {
+  return new Map(nodes.map((node) => [node.nodeId, node]));
+};
+
+describe("resolveValues", () => {
+  test("resolves aliases by token path", () => {
+    const parsed = parseDesignTokens({
+      space: {
+        $type: "dimension",
+        md: { $value: { value: 16, unit: "px" } },
+        gap: { $value: "{space.md}" },
+      },
+    });
+    const values = resolveValues(nodesToMap(parsed.nodes));
+    expect(Array.from(values.keys())).toEqual(["space.md", "space.gap"]);
+    expect(values.get("space.gap")).toEqual({
+      path: ["space", "gap"],
+      value: { type: "dimension", value: { value: 16, unit: "px" } },
+    });
+  });
+
+  test("skips tokens with broken aliases", () => {
+    const parsed = parseDesignTokens({
+      space: {
+        $type: "dimension",
+        md: { $value: { value: 16, unit: "px" } },
+        gap: { $value: "{space.md}" },
+      },
+    });
+    const nodes = nodesToMap(parsed.nodes);
+    const md = parsed.nodes.find((node) => node.meta.name === "md")!;
+    nodes.delete(md.nodeId);
+    expect(resolveValues(nodes).size).toBe(0);
+  });
+});
+
+describe("toNumber", () => {
+  test("rounds to 4 digits without trailing zeros", () => {
+    expect(toNumber(0.123456)).toBe("0.1235");
+    expect(toNumber(16)).toBe("16");
+    expect(toNumber(1.5)).toBe("1.5");
+  });
+});
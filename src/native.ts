@@ -0,0 +1,35 @@
+import type { TreeNode } from "./store";
+import { resolveTokenValue, type TreeNodeMeta } from "./state.svelte";
+import type { Value } from "./schema";
+import { buildChildrenByParent, visitTokens } from "./css-variables";
+
+export type ResolvedToken = { path: string[]; value: Value };
+
+/**
+ * Resolve values of all tokens by dot separated path for platforms
+ * which cannot reference other tokens
+ */
+export const resolveValues = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+): Map<string, ResolvedToken> => {
+  const values = new Map<string, ResolvedToken>();
+  const childrenByParent = buildChildrenByParent(nodes);
+  for (const node of childrenByParent.get(undefined) ?? []) {
+    visitTokens(node, [], childrenByParent, (token, path) => {
+      try {
+        const value = resolveTokenValue(token, nodes);
+        values.set(path.join("."), { path, value });
+      } catch {
+        // skip tokens with broken aliases
+      }
+    });
+  }
+  return values;
+};
+
+/**
+ * Number literal rounded to 4 digits without trailing zeros
+ */
+export const toNumber = (value: number) => {
+  return `${Number(value.toFixed(4))}`;
+};
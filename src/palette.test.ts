@@ -0,0 +1,202 @@
+import { test, expect, describe } from "vitest";
+import {
+  createPaletteNodes,
+  generatePalette,
+  getPaletteSettings,
+  getPaletteStepNames,
+  paletteExtensionKey,
+  type PaletteSettings,
+} from "./palette";
+import type { GroupMeta, TreeNodeMeta } from "./state.svelte";
+import type { TreeNode } from "./store";
+
+const settings: PaletteSettings = {
+  seed: "#3b82f6",
+  steps: 11,
+  lightness: "linear",
+  chroma: "peak",
+};
+
+const group: TreeNode<GroupMeta> = {
+  nodeId: "brand",
+  parentId: undefined,
+  index: "a0",
+  meta: { nodeType: "token-group", name: "brand" },
+};
+
+describe("getPaletteStepNames", () => {
+  test("uses standard names for 11 steps", () => {
+    expect(getPaletteStepNames(11)).toEqual([
+      "50",
+      "100",
+      "200",
+      "300",
+      "400",
+      "500",
+      "600",
+      "700",
+      "800",
+      "900",
+      "950",
+    ]);
+  });
+
+  test("picks standard names for shorter ramps", () => {
+    expect(getPaletteStepNames(5)).toEqual(["50", "300", "500", "800", "950"]);
+  });
+
+  test("fills longer ramps with multiples of 25", () => {
+    const names = getPaletteStepNames(13);
+    expect(names).toHaveLength(13);
+    expect(new Set(names).size).toBe(13);
+    expect(names.at(0)).toBe("50");
+    expect(names.at(-1)).toBe("950");
+  });
+});
+
+describe("generatePalette", () => {
+  test("generates oklch ramp from light to dark with seed hue", () => {
+    const palette = generatePalette(settings);
+    expect(palette).toHaveLength(11);
+    const lightness = palette.map((step) => step.color.components[0]);
+    expect(lightness).toEqual([...lightness].sort((a, b) => +b - +a));
+    for (const step of palette) {
+      expect(step.color.colorSpace).toBe("oklch");
+      expect(step.color.components[2]).toBeCloseTo(259.8, 0);
+    }
+  });
+
+  test("keeps every step in srgb when chroma is fitted", () => {
+    const palette = generatePalette({
+      ...settings,
+      seed: "color(display-p3 0 1 0)",
+      chroma: "fit-srgb",
+    });
+    expect(palette.every((step) => step.inSrgb && step.inP3)).toBe(true);
+  });
+
+  test("reports steps out of srgb gamut", () => {
+    const palette = generatePalette({
+      ...settings,
+      seed: "color(display-p3 0 1 0)",
+      chroma: "constant",
+    });
+    expect(palette.some((step) => !step.inSrgb)).toBe(true);
+  });
+});
+
+describe("createPaletteNodes", () => {
+  // group generated before with 11 steps
+  const paletteGroup: TreeNode<GroupMeta> = {
+    ...group,
+    meta: {
+      ...group.meta,
+      type: "color",
+      extensions: { [paletteExtensionKey]: settings },
+    },
+  };
+
+  test("creates group with settings and color token per step", () => {
+    const { nodes, removedIds } = createPaletteNodes(group, settings);
+    expect(removedIds).toEqual([]);
+    expect(nodes[0].meta).toEqual({
+      nodeType: "token-group",
+      name: "brand",
+      type: "color",
+      extensions: { [paletteExtensionKey]: settings },
+    });
+    expect(getPaletteSettings(nodes[0].meta as GroupMeta)).toEqual(settings);
+    const tokens = nodes.slice(1);
+    expect(tokens.map((node) => node.meta.name)).toEqual(
+      getPaletteStepNames(11),
+    );
+    expect(tokens.every((node) => node.parentId === "brand")).toBe(true);
+    expect(tokens.map((node) => node.index)).toEqual(
+      tokens.map((node) => node.index).sort(),
+    );
+  });
+
+  test("keeps ids of regenerated tokens and removes missing steps", () => {
+    const children: TreeNode<TreeNodeMeta>[] = [
+      {
+        nodeId: "brand-50",
+        parentId: "brand",
+        index: "a0",
+        meta: {
+          nodeType: "token",
+          name: "50",
+          description: "Lightest",
+          type: "color",
+          value: { colorSpace: "srgb", components: [1, 1, 1] },
+        },
+      },
+      {
+        nodeId: "brand-100",
+        parentId: "brand",
+        index: "a1",
+        meta: {
+          nodeType: "token",
+          name: "100",
+          type: "color",
+          value: { colorSpace: "srgb", components: [1, 1, 1] },
+        },
+      },
+    ];
+    const { nodes, removedIds } = createPaletteNodes(
+      paletteGroup,
+      { ...settings, steps: 5 },
+      children,
+    );
+    expect(removedIds).toEqual(["brand-100"]);
+    const lightest = nodes.find((node) => node.meta.name === "50");
+    expect(lightest?.nodeId).toBe("brand-50");
+    expect(lightest?.meta).toMatchObject({
+      description: "Lightest",
+      value: { colorSpace: "oklch" },
+    });
+  });
+
+  test("keeps manually added tokens when regenerated", () => {
+    const children: TreeNode<TreeNodeMeta>[] = [
+      {
+        nodeId: "brand-accent",
+        parentId: "brand",
+        index: "a0",
+        meta: {
+          nodeType: "token",
+          name: "accent",
+          type: "color",
+          value: { colorSpace: "srgb", components: [1, 0, 0] },
+        },
+      },
+      {
+        nodeId: "brand-100",
+        parentId: "brand",
+        index: "a1",
+        meta: {
+          nodeType: "token",
+          name: "100",
+          type: "color",
+          value: { colorSpace: "srgb", components: [1, 1, 1] },
+        },
+      },
+    ];
+    // group without settings was not generated so nothing is removed
+    expect(
+      createPaletteNodes(group, { ...settings, steps: 5 }, children).removedIds,
+    ).toEqual([]);
+    expect(
+      createPaletteNodes(paletteGroup, { ...settings, steps: 5 }, children)
+        .removedIds,
+    ).toEqual(["brand-100"]);
+  });
+
+  test("ignores invalid settings in extensions", () => {
+    expect(
+      getPaletteSettings({
+        ...group.meta,
+        extensions: { [paletteExtensionKey]: { seed: "#000", steps: 1 } },
+      }),
+    ).toBeUndefined();
+  });
+});
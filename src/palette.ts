@@ -0,0 +1,197 @@
+import { z } from "zod";
+import { generateKeyBetween } from "fractional-indexing";
+import { convertColor, isInGamut, parseColor } from "./color";
+import type { ColorValue } from "./schema";
+import type { GroupMeta, TokenMeta, TreeNodeMeta } from "./state.svelte";
+import type { TreeNode } from "./store";
+
+/** keeps generator settings of palette group to regenerate its ramp */
+export const paletteExtensionKey = "dev.engramma.palette";
+
+const paletteSettingsSchema = z.object({
+  /** CSS color which gives hue and chroma of the ramp */
+  seed: z.string(),
+  steps: z.number().int().min(3).max(19),
+  lightness: z
+    .enum(["linear", "ease-in", "ease-out", "ease-in-out"])
+    .default("linear"),
+  chroma: z.enum(["constant", "peak", "fit-srgb"]).default("peak"),
+});
+
+export type PaletteSettings = z.infer<typeof paletteSettingsSchema>;
+
+export const defaultPaletteSettings: PaletteSettings = {
+  seed: "#3b82f6",
+  steps: 11,
+  lightness: "linear",
+  chroma: "peak",
+};
+
+export type PaletteStep = {
+  name: string;
+  color: ColorValue;
+  inSrgb: boolean;
+  inP3: boolean;
+};
+
+// oklch lightness of the lightest and the darkest steps
+const maxLightness = 0.97;
+const minLightness = 0.27;
+
+const lightnessCurves: Record<
+  PaletteSettings["lightness"],
+  (t: number) => number
+> = {
+  linear: (t) => t,
+  "ease-in": (t) => t * t,
+  "ease-out": (t) => 1 - (1 - t) * (1 - t),
+  "ease-in-out": (t) => t * t * (3 - 2 * t),
+};
+
+const standardStepNames = [
+  50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950,
+];
+
+/**
+ * Step names between 50 and 950 like tailwind palettes,
+ * longer ramps fill gaps with multiples of 25
+ */
+export const getPaletteStepNames = (steps: number): string[] => {
+  const names: string[] = [];
+  for (let step = 0; step < steps; step += 1) {
+    const t = step / (steps - 1);
+    if (steps <= standardStepNames.length) {
+      const index = Math.round(t * (standardStepNames.length - 1));
+      names.push(String(standardStepNames[index]));
+    } else {
+      names.push(String(Math.round((50 + t * 900) / 25) * 25));
+    }
+  }
+  return names;
+};
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+const toOklch = (
+  lightness: number,
+  chroma: number,
+  hue: number,
+): ColorValue => ({
+  colorSpace: "oklch",
+  components: [round(lightness), round(chroma), round(hue)],
+});
+
+// binary search of the most saturated color displayable in srgb
+const getMaxSrgbChroma = (lightness: number, hue: number, limit: number) => {
+  if (isInGamut(toOklch(lightness, limit, hue), "srgb")) {
+    return limit;
+  }
+  let low = 0;
+  let high = limit;
+  for (let iteration = 0; iteration < 16; iteration += 1) {
+    const middle = (low + high) / 2;
+    if (isInGamut(toOklch(lightness, middle, hue), "srgb")) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+};
+
+/**
+ * Ramp from light to dark in oklch keeping hue of seed color
+ */
+export const generatePalette = (settings: PaletteSettings): PaletteStep[] => {
+  const seed = convertColor(parseColor(settings.seed), "oklch");
+  const [, seedChroma, seedHue] = seed.components as number[];
+  const curve = lightnessCurves[settings.lightness];
+  return getPaletteStepNames(settings.steps).map((name, step) => {
+    const t = step / (settings.steps - 1);
+    const lightness = maxLightness - (maxLightness - minLightness) * curve(t);
+    let chroma = seedChroma;
+    if (settings.chroma === "peak") {
+      // muted ends and the most saturated middle
+      chroma = seedChroma * (0.2 + 0.8 * Math.sin(Math.PI * t));
+    }
+    if (settings.chroma === "fit-srgb") {
+      chroma = getMaxSrgbChroma(lightness, seedHue, seedChroma);
+    }
+    const color = toOklch(lightness, chroma, seedHue);
+    return {
+      name,
+      color,
+      inSrgb: isInGamut(color, "srgb"),
+      inP3: isInGamut(color, "display-p3"),
+    };
+  });
+};
+
+export const getPaletteSettings = (
+  meta: GroupMeta,
+): undefined | PaletteSettings => {
+  const result = paletteSettingsSchema.safeParse(
+    meta.extensions?.[paletteExtensionKey],
+  );
+  return result.success ? result.data : undefined;
+};
+
+/**
+ * Palette group with color token per step and settings in extensions,
+ * tokens of regenerated group are matched by name to keep their ids
+ * and aliases pointing at them, only steps of previous generation
+ * are removed so manually added tokens are preserved
+ */
+export const createPaletteNodes = (
+  group: TreeNode<GroupMeta>,
+  settings: PaletteSettings,
+  children: TreeNode<TreeNodeMeta>[] = [],
+): { nodes: TreeNode<TreeNodeMeta>[]; removedIds: string[] } => {
+  const nodes: TreeNode<TreeNodeMeta>[] = [
+    {
+      ...group,
+      meta: {
+        ...group.meta,
+        type: "color",
+        extensions: {
+          ...group.meta.extensions,
+          [paletteExtensionKey]: settings,
+        },
+      },
+    },
+  ];
+  const previousSettings = getPaletteSettings(group.meta);
+  const previousNames = new Set(
+    previousSettings ? getPaletteStepNames(previousSettings.steps) : [],
+  );
+  const tokensByName = new Map<string, TreeNode<TokenMeta>>();
+  for (const child of children) {
+    if (child.meta.nodeType === "token") {
+      tokensByName.set(child.meta.name, child as TreeNode<TokenMeta>);
+    }
+  }
+  let index: null | string = null;
+  for (const step of generatePalette(settings)) {
+    index = generateKeyBetween(index, null);
+    const existing = tokensByName.get(step.name);
+    tokensByName.delete(step.name);
+    nodes.push({
+      nodeId: existing?.nodeId ?? crypto.randomUUID(),
+      parentId: group.nodeId,
+      index,
+      meta: {
+        ...existing?.meta,
+        nodeType: "token",
+        name: step.name,
+        type: "color",
+        value: step.color,
+      },
+    });
+  }
+  return {
+    nodes,
+    removedIds: Array.from(tokensByName.values())
+      .filter((node) => previousNames.has(node.meta.name))
+      .map((node) => node.nodeId),
+  };
+};
@@ -0,0 +1,322 @@
+import { treeState, type TreeNodeMeta } from "./state.svelte";
+import type { TreeNode } from "./store";
+import type { ResolvedResolverDocument } from "./dtcg.schema";
+import { serializeTokenResolver } from "./resolver";
+
+export type ProjectInfo = {
+  id: string;
+  name: string;
+  /** Timestamp of the last save, used to order projects */
+  updatedAt: number;
+};
+
+export type Project = ProjectInfo & {
+  nodes: TreeNode<TreeNodeMeta>[];
+};
+
+/**
+ * Named version of project tokens, for example "v2.3.0"
+ */
+export type Snapshot = {
+  id: string;
+  projectId: string;
+  name: string;
+  createdAt: number;
+  document: ResolvedResolverDocument;
+};
+
+const databaseName = "engramma";
+const storeName = "projects";
+const snapshotStoreName = "snapshots";
+const lastProjectKey = "engramma:last-project";
+
+const requestToPromise = <Value>(request: IDBRequest<Value>) =>
+  new Promise<Value>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+let databasePromise: undefined | Promise<IDBDatabase>;
+
+const openDatabase = () => {
+  databasePromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(databaseName, 2);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(storeName)) {
+        database.createObjectStore(storeName, { keyPath: "id" });
+      }
+      if (!database.objectStoreNames.contains(snapshotStoreName)) {
+        database
+          .createObjectStore(snapshotStoreName, { keyPath: "id" })
+          .createIndex("projectId", "projectId");
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return databasePromise;
+};
+
+const getStore = async (mode: IDBTransactionMode, name = storeName) => {
+  const database = await openDatabase();
+  return database.transaction(name, mode).objectStore(name);
+};
+
+export const listProjects = async (): Promise<ProjectInfo[]> => {
+  const store = await getStore("readonly");
+  const projects: Project[] = await requestToPromise(store.getAll());
+  return projects
+    .map(({ id, name, updatedAt }) => ({ id, name, updatedAt }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<undefined | Project> => {
+  const store = await getStore("readonly");
+  return requestToPromise(store.get(id));
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  const store = await getStore("readwrite");
+  // nodes edited in components may contain svelte proxies
+  // which cannot be structured cloned
+  await requestToPromise(store.put(JSON.parse(JSON.stringify(project))));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const database = await openDatabase();
+  const transaction = database.transaction(
+    [storeName, snapshotStoreName],
+    "readwrite",
+  );
+  transaction.objectStore(storeName).delete(id);
+  // snapshots are deleted together with their project
+  const snapshots = transaction.objectStore(snapshotStoreName);
+  const keysRequest = snapshots.index("projectId").getAllKeys(id);
+  keysRequest.onsuccess = () => {
+    for (const key of keysRequest.result) {
+      snapshots.delete(key);
+    }
+  };
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const listSnapshots = async (projectId: string): Promise<Snapshot[]> => {
+  const store = await getStore("readonly", snapshotStoreName);
+  const snapshots: Snapshot[] = await requestToPromise(
+    store.index("projectId").getAll(projectId),
+  );
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveSnapshot = async (snapshot: Snapshot): Promise<void> => {
+  const store = await getStore("readwrite", snapshotStoreName);
+  await requestToPromise(store.put(JSON.parse(JSON.stringify(snapshot))));
+};
+
+export const deleteSnapshot = async (id: string): Promise<void> => {
+  const store = await getStore("readwrite", snapshotStoreName);
+  await requestToPromise(store.delete(id));
+};
+
+/**
+ * Name for a copy which does not clash with existing projects
+ * "Brand" -> "Brand copy" -> "Brand copy 2"
+ */
+export const getDuplicateName = (name: string, existingNames: string[]) => {
+  const baseName = `${name.replace(/ copy( \d+)?$/, "")} copy`;
+  const names = new Set(existingNames);
+  let copyName = baseName;
+  for (let index = 2; names.has(copyName); index += 1) {
+    copyName = `${baseName} ${index}`;
+  }
+  return copyName;
+};
+
+/**
+ * Persistence of projects and their snapshots
+ */
+export type ProjectStorage = {
+  listProjects: () => Promise<ProjectInfo[]>;
+  loadProject: (id: string) => Promise<undefined | Project>;
+  saveProject: (project: Project) => Promise<void>;
+  deleteProject: (id: string) => Promise<void>;
+  listSnapshots: (projectId: string) => Promise<Snapshot[]>;
+  saveSnapshot: (snapshot: Snapshot) => Promise<void>;
+  deleteSnapshot: (id: string) => Promise<void>;
+};
+
+const indexedDbStorage: ProjectStorage = {
+  listProjects,
+  loadProject,
+  saveProject,
+  deleteProject,
+  listSnapshots,
+  saveSnapshot,
+  deleteSnapshot,
+};
+
+/**
+ * Named projects stored in IndexedDB by default, current one is autosaved
+ * whenever tree state is changed
+ */
+export class ProjectLibrary {
+  current: undefined | ProjectInfo = $state();
+  projects: ProjectInfo[] = $state([]);
+  /** Snapshots of current project, newest first */
+  snapshots: Snapshot[] = $state([]);
+  #storage: ProjectStorage;
+
+  constructor(storage: ProjectStorage = indexedDbStorage) {
+    this.#storage = storage;
+  }
+
+  async refresh(): Promise<void> {
+    try {
+      this.projects = await this.#storage.listProjects();
+      this.snapshots = this.current
+        ? await this.#storage.listSnapshots(this.current.id)
+        : [];
+    } catch (error) {
+      console.error("Failed to list projects:", error);
+    }
+  }
+
+  async save(nodes: TreeNode<TreeNodeMeta>[]): Promise<void> {
+    if (!this.current) {
+      return;
+    }
+    const project = { ...this.current, updatedAt: Date.now(), nodes };
+    try {
+      await this.#storage.saveProject(project);
+    } catch (error) {
+      console.error("Failed to save project:", error);
+    }
+  }
+
+  async #load(project: Project): Promise<void> {
+    // keep changes made right before switching
+    await this.save(treeState.values() as TreeNode<TreeNodeMeta>[]);
+    this.current = {
+      id: project.id,
+      name: project.name,
+      updatedAt: project.updatedAt,
+    };
+    treeState.transact((tx) => {
+      tx.clear();
+      for (const node of project.nodes) {
+        tx.set(node);
+      }
+    });
+    treeState.clearHistory();
+    localStorage.setItem(lastProjectKey, project.id);
+    await this.refresh();
+  }
+
+  async create(
+    name: string,
+    nodes: TreeNode<TreeNodeMeta>[] = [],
+  ): Promise<void> {
+    const project = {
+      id: crypto.randomUUID(),
+      name,
+      updatedAt: Date.now(),
+      nodes,
+    };
+    try {
+      await this.#storage.saveProject(project);
+    } catch (error) {
+      console.error("Failed to save project:", error);
+    }
+    await this.#load(project);
+  }
+
+  async open(id: string): Promise<boolean> {
+    try {
+      const project = await this.#storage.loadProject(id);
+      if (project) {
+        await this.#load(project);
+        return true;
+      }
+    } catch (error) {
+      console.error("Failed to open project:", error);
+    }
+    return false;
+  }
+
+  /** Restore the last opened project on startup */
+  async openLast(): Promise<boolean> {
+    const id = localStorage.getItem(lastProjectKey);
+    return id ? this.open(id) : false;
+  }
+
+  async duplicate(id: string): Promise<void> {
+    const project =
+      id === this.current?.id
+        ? {
+            ...this.current,
+            nodes: treeState.values() as TreeNode<TreeNodeMeta>[],
+          }
+        : await this.#storage.loadProject(id).catch(() => undefined);
+    if (!project) {
+      return;
+    }
+    const existingNames = this.projects.map((item) => item.name);
+    await this.create(
+      getDuplicateName(project.name, existingNames),
+      project.nodes,
+    );
+  }
+
+  /** Freeze resolver document of current tokens under the name */
+  async createSnapshot(name: string): Promise<void> {
+    if (!this.current) {
+      return;
+    }
+    const snapshot = {
+      id: crypto.randomUUID(),
+      projectId: this.current.id,
+      name,
+      createdAt: Date.now(),
+      document: serializeTokenResolver(treeState.nodes(), { name }),
+    };
+    try {
+      await this.#storage.saveSnapshot(snapshot);
+    } catch (error) {
+      console.error("Failed to save snapshot:", error);
+    }
+    await this.refresh();
+  }
+
+  async removeSnapshot(id: string): Promise<void> {
+    try {
+      await this.#storage.deleteSnapshot(id);
+    } catch (error) {
+      console.error("Failed to delete snapshot:", error);
+    }
+    await this.refresh();
+  }
+
+  async remove(id: string): Promise<void> {
+    try {
+      await this.#storage.deleteProject(id);
+    } catch (error) {
+      console.error("Failed to delete project:", error);
+      return;
+    }
+    if (id === this.current?.id) {
+      // nothing to keep from deleted project
+      this.current = undefined;
+      const [next] = await this.#storage.listProjects();
+      if (!next || !(await this.open(next.id))) {
+        await this.create("Untitled");
+      }
+    }
+    await this.refresh();
+  }
+}
+
+export const projectLibrary = new ProjectLibrary();
@@ -0,0 +1,156 @@
+import { test, expect, describe, beforeEach, vi } from "vitest";
+import {
+  getDuplicateName,
+  ProjectLibrary,
+  type Project,
+  type ProjectStorage,
+  type Snapshot,
+} from "./projects.svelte";
+import { treeState, type TreeNodeMeta } from "./state.svelte";
+import type { TreeNode } from "./store";
+
+test("names project copies without clashing with existing projects", () => {
+  expect(getDuplicateName("Brand", [])).toBe("Brand copy");
+  expect(getDuplicateName("Brand", ["Brand", "Brand copy"])).toBe(
+    "Brand copy 2",
+  );
+  expect(getDuplicateName("Brand copy 2", ["Brand copy", "Brand copy 2"])).toBe(
+    "Brand copy 3",
+  );
+});
+
+// in-memory replacement of IndexedDB
+const createMemoryStorage = (initialProjects: Project[] = []) => {
+  const projects = new Map(
+    initialProjects.map((project) => [project.id, project]),
+  );
+  const snapshots = new Map<string, Snapshot>();
+  const storage: ProjectStorage = {
+    listProjects: async () =>
+      Array.from(projects.values(), ({ id, name, updatedAt }) => ({
+        id,
+        name,
+        updatedAt,
+      })).sort((a, b) => b.updatedAt - a.updatedAt),
+    loadProject: async (id) => projects.get(id),
+    saveProject: async (project) => {
+      projects.set(project.id, JSON.parse(JSON.stringify(project)));
+    },
+    deleteProject: async (id) => {
+      projects.delete(id);
+    },
+    listSnapshots: async (projectId) =>
+      Array.from(snapshots.values()).filter(
+        (snapshot) => snapshot.projectId === projectId,
+      ),
+    saveSnapshot: async (snapshot) => {
+      snapshots.set(snapshot.id, snapshot);
+    },
+    deleteSnapshot: async (id) => {
+      snapshots.delete(id);
+    },
+  };
+  return { storage, projects };
+};
+
+const createSetNode = (nodeId: string): TreeNode<TreeNodeMeta> => ({
+  nodeId,
+  parentId: undefined,
+  index: "a0",
+  meta: { nodeType: "token-set", name: nodeId },
+});
+
+const createProject = (id: string, updatedAt: number): Project => ({
+  id,
+  name: id,
+  updatedAt,
+  nodes: [createSetNode(`${id}-set`)],
+});
+
+describe("ProjectLibrary", () => {
+  beforeEach(() => {
+    const items = new Map<string, string>();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => items.set(key, value),
+    });
+    return () => {
+      vi.unstubAllGlobals();
+    };
+  });
+
+  test("saves current project before switching and clears history", async () => {
+    const { storage, projects } = createMemoryStorage([createProject("b", 1)]);
+    const library = new ProjectLibrary(storage);
+    await library.create("a");
+    const currentId = library.current!.id;
+    treeState.transact((tx) => {
+      tx.set(createSetNode("unsaved"));
+    });
+    expect(treeState.canUndo()).toBe(true);
+
+    expect(await library.open("b")).toBe(true);
+    expect(projects.get(currentId)?.nodes).toEqual([createSetNode("unsaved")]);
+    expect(library.current?.id).toBe("b");
+    expect(treeState.values()).toEqual([createSetNode("b-set")]);
+    expect(treeState.canUndo()).toBe(false);
+    expect(localStorage.getItem("engramma:last-project")).toBe("b");
+    expect(library.projects.map((project) => project.name)).toEqual(["a", "b"]);
+  });
+
+  test("opens the most recent project after removing current one", async () => {
+    const { storage, projects } = createMemoryStorage([
+      createProject("a", 3),
+      createProject("b", 2),
+      createProject("c", 1),
+    ]);
+    const library = new ProjectLibrary(storage);
+    await library.open("c");
+    await library.remove("c");
+    expect(projects.has("c")).toBe(false);
+    expect(library.current?.id).toBe("a");
+    expect(treeState.values()).toEqual([createSetNode("a-set")]);
+    expect(library.projects.map((project) => project.id)).toEqual(["a", "b"]);
+  });
+
+  test("creates untitled project after removing the last one", async () => {
+    const { storage, projects } = createMemoryStorage([createProject("a", 1)]);
+    const library = new ProjectLibrary(storage);
+    await library.open("a");
+    await library.remove("a");
+    expect(library.current?.name).toBe("Untitled");
+    expect(Array.from(projects.values(), (project) => project.name)).toEqual([
+      "Untitled",
+    ]);
+    expect(treeState.values()).toEqual([]);
+  });
+
+  test("keeps current project when other project is removed", async () => {
+    const { storage } = createMemoryStorage([
+      createProject("a", 2),
+      createProject("b", 1),
+    ]);
+    const library = new ProjectLibrary(storage);
+    await library.open("b");
+    await library.remove("a");
+    expect(library.current?.id).toBe("b");
+    expect(treeState.values()).toEqual([createSetNode("b-set")]);
+  });
+
+  test("restores the last opened project", async () => {
+    const { storage } = createMemoryStorage([createProject("a", 1)]);
+    const library = new ProjectLibrary(storage);
+    expect(await library.openLast()).toBe(false);
+    localStorage.setItem("engramma:last-project", "a");
+    expect(await library.openLast()).toBe(true);
+    expect(library.current?.id).toBe("a");
+  });
+
+  test("does not open missing last project", async () => {
+    const { storage } = createMemoryStorage([createProject("a", 1)]);
+    const library = new ProjectLibrary(storage);
+    localStorage.setItem("engramma:last-project", "missing");
+    expect(await library.openLast()).toBe(false);
+    expect(library.current).toBeUndefined();
+  });
+});
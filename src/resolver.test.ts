@@ -3,9 +3,16 @@ import {
   parseTokenResolver,
   serializeTokenResolver,
   isResolverFormat,
+  resolveTokenSet,
+  resolveTokenValueInSet,
+  resolveDesignTokens,
+  getDarkModeInputs,
+  resolveResolverRefs,
+  serializeTokenResolverFiles,
+  sourceFileExtensionKey,
 } from "./resolver";
 import type { TreeNode } from "./store";
-import type { TreeNodeMeta } from "./state.svelte";
+import { resolveTokenValue, type TreeNodeMeta } from "./state.svelte";
 
 describe("isResolverFormat", () => {
   test("detects valid resolver format", () => {
@@ -1751,4 +1758,637 @@ describe("cross-set aliases", () => {
       });
     }
   });
+
+  test("serializes JSON Pointer refs back as $ref", async () => {
+    const shadowValue = (offsetY: unknown) => ({
+      color: { colorSpace: "srgb", components: [0, 0, 0] },
+      offsetX: { value: 0, unit: "px" },
+      offsetY,
+      blur: { value: 4, unit: "px" },
+      spread: { value: 0, unit: "px" },
+    });
+    const input = {
+      version: "2025.10",
+      resolutionOrder: [
+        {
+          type: "set",
+          name: "Base",
+          sources: [
+            {
+              shadow: {
+                $type: "shadow",
+                base: {
+                  $value: [
+                    shadowValue({ value: 1, unit: "px" }),
+                    shadowValue({ value: 8, unit: "px" }),
+                  ],
+                },
+                raised: {
+                  $value: shadowValue({
+                    $ref: "#/shadow/base/$value/1/offsetY",
+                  }),
+                },
+              },
+            },
+          ],
+        },
+      ],
+    };
+    const result = await parseTokenResolver(input);
+    expect(result.errors).toHaveLength(0);
+    const nodes = new Map(result.nodes.map((node) => [node.nodeId, node]));
+    const document = serializeTokenResolver(nodes);
+    const setItem = document.resolutionOrder[0] as any;
+    expect(setItem.sources[0].shadow.raised.$value).toMatchObject(
+      shadowValue({ $ref: "#/shadow/base/$value/1/offsetY" }),
+    );
+    expect(setItem.sources[0].shadow.base.$value[1].offsetY).toEqual({
+      value: 8,
+      unit: "px",
+    });
+
+    const reparsed = await parseTokenResolver(document);
+    const raised = reparsed.nodes.find((node) => node.meta.name === "raised");
+    expect(raised?.meta).toMatchObject({
+      value: [shadowValue({ value: 8, unit: "px" })],
+      jsonPointerRefs: [
+        {
+          componentKey: "offsetY",
+          targetRef: "#/shadow/base/$value/1/offsetY",
+          targetTokenPath: "shadow.base",
+        },
+      ],
+    });
+  });
+});
+
+describe("resolveTokenSet", () => {
+  const red = { colorSpace: "srgb", components: [1, 0, 0] };
+  const green = { colorSpace: "srgb", components: [0, 1, 0] };
+  const blue = { colorSpace: "srgb", components: [0, 0, 1] };
+
+  const parseNodes = async (input: unknown) => {
+    const result = await parseTokenResolver(input);
+    expect(result.errors).toHaveLength(0);
+    return new Map(result.nodes.map((n) => [n.nodeId, n]));
+  };
+
+  const getTokenByPath = (
+    nodes: Map<string, TreeNode<TreeNodeMeta>>,
+    path: string,
+  ) => {
+    const [groupName, tokenName] = path.split(".");
+    const group = Array.from(nodes.values()).find(
+      (n) => n.meta.name === groupName && n.parentId === undefined,
+    );
+    const token = Array.from(nodes.values()).find(
+      (n) => n.meta.name === tokenName && n.parentId === group?.nodeId,
+    );
+    if (!token) {
+      throw Error(`Token ${path} not found`);
+    }
+    return token;
+  };
+
+  const themeResolver = {
+    version: "2025.10",
+    resolutionOrder: [
+      {
+        type: "set",
+        name: "Primitive",
+        sources: [
+          {
+            color: {
+              $type: "color",
+              red: { $value: red },
+              blue: { $value: blue },
+              accent: { $value: red },
+            },
+          },
+        ],
+      },
+      {
+        type: "set",
+        name: "Brand",
+        sources: [
+          {
+            color: {
+              $type: "color",
+              accent: { $value: green },
+              link: { $value: "{color.accent}" },
+            },
+          },
+        ],
+      },
+      {
+        type: "modifier",
+        name: "theme",
+        default: "light",
+        contexts: {
+          light: [
+            { color: { $type: "color", surface: { $value: "{color.red}" } } },
+          ],
+          dark: [
+            {
+              color: {
+                $type: "color",
+                surface: { $value: "{color.blue}" },
+                accent: { $value: blue },
+              },
+            },
+          ],
+        },
+      },
+    ],
+  };
+
+  test("flattens sets and contexts into a single tree", async () => {
+    const nodes = await parseNodes(themeResolver);
+    const resolved = resolveTokenSet(nodes, undefined, { theme: "dark" });
+    const nodeTypes = new Set(
+      Array.from(resolved.values()).map((n) => n.meta.nodeType),
+    );
+    expect(nodeTypes).toEqual(new Set(["token-group", "token"]));
+    const groups = Array.from(resolved.values()).filter(
+      (n) => n.meta.nodeType === "token-group",
+    );
+    expect(groups).toHaveLength(1);
+    expect(groups[0].parentId).toBeUndefined();
+    const tokenNames = Array.from(resolved.values())
+      .filter((n) => n.meta.nodeType === "token")
+      .map((n) => n.meta.name)
+      .sort();
+    expect(tokenNames).toEqual(["accent", "blue", "link", "red", "surface"]);
+  });
+
+  test("later sets override tokens with the same path", async () => {
+    const nodes = await parseNodes(themeResolver);
+    const resolved = resolveTokenSet(nodes, undefined);
+    const accent = getTokenByPath(resolved, "color.accent");
+    expect(resolveTokenValue(accent, resolved)).toEqual({
+      type: "color",
+      value: green,
+    });
+  });
+
+  test("selected context overrides tokens from sets", async () => {
+    const nodes = await parseNodes(themeResolver);
+    const resolved = resolveTokenSet(nodes, undefined, { theme: "dark" });
+    const accent = getTokenByPath(resolved, "color.accent");
+    expect(resolveTokenValue(accent, resolved)).toEqual({
+      type: "color",
+      value: blue,
+    });
+  });
+
+  test("falls back to default context for missing inputs", async () => {
+    const nodes = await parseNodes(themeResolver);
+    const resolved = resolveTokenSet(nodes, undefined, {});
+    const surface = getTokenByPath(resolved, "color.surface");
+    expect(resolveTokenValue(surface, resolved)).toEqual({
+      type: "color",
+      value: red,
+    });
+  });
+
+  test("uses selected context when input is provided", async () => {
+    const nodes = await parseNodes(themeResolver);
+    const resolved = resolveTokenSet(nodes, undefined, { theme: "dark" });
+    const surface = getTokenByPath(resolved, "color.surface");
+    expect(resolveTokenValue(surface, resolved)).toEqual({
+      type: "color",
+      value: blue,
+    });
+  });
+
+  test("resolves aliases from contexts into base sets", async () => {
+    const nodes = await parseNodes(themeResolver);
+    const resolved = resolveTokenSet(nodes, undefined, { theme: "dark" });
+    const surface = getTokenByPath(resolved, "color.surface");
+    const blueToken = getTokenByPath(resolved, "color.blue");
+    expect(surface.meta).toMatchObject({ value: { ref: blueToken.nodeId } });
+  });
+
+  test("redirects aliases from base sets to overrides in context", async () => {
+    const nodes = await parseNodes(themeResolver);
+    const light = resolveTokenSet(nodes, undefined, { theme: "light" });
+    const dark = resolveTokenSet(nodes, undefined, { theme: "dark" });
+    expect(
+      resolveTokenValue(getTokenByPath(light, "color.link"), light).value,
+    ).toEqual(green);
+    expect(
+      resolveTokenValue(getTokenByPath(dark, "color.link"), dark).value,
+    ).toEqual(blue);
+  });
+
+  test("resolves set tokens from the tree with context overrides", async () => {
+    const nodes = await parseNodes(themeResolver);
+    const dark = resolveTokenSet(nodes, undefined, { theme: "dark" });
+    const primitiveAccent = Array.from(nodes.values()).find(
+      (n) =>
+        n.meta.name === "accent" &&
+        nodes.get(nodes.get(n.parentId!)!.parentId!)?.meta.name === "Primitive",
+    );
+    expect(primitiveAccent).toBeDefined();
+    expect(resolveTokenValueInSet(primitiveAccent!, nodes, dark).value).toEqual(
+      blue,
+    );
+  });
+
+  test("resolves context tokens through the token set", async () => {
+    const nodes = await parseNodes(themeResolver);
+    const light = resolveTokenSet(nodes, undefined, { theme: "light" });
+    const darkSurface = Array.from(nodes.values()).find(
+      (n) =>
+        n.meta.name === "surface" &&
+        nodes.get(nodes.get(n.parentId!)!.parentId!)?.meta.name === "dark",
+    );
+    expect(darkSurface).toBeDefined();
+    expect(resolveTokenValueInSet(darkSurface!, nodes, light).value).toEqual(
+      blue,
+    );
+  });
+
+  test("skips modifier without input and default", async () => {
+    const nodes = await parseNodes({
+      version: "2025.10",
+      resolutionOrder: [
+        {
+          type: "modifier",
+          name: "density",
+          contexts: {
+            compact: [
+              {
+                gap: { $type: "dimension", $value: { value: 4, unit: "px" } },
+              },
+            ],
+          },
+        },
+      ],
+    });
+    expect(resolveTokenSet(nodes, undefined).size).toBe(0);
+    expect(resolveTokenSet(nodes, undefined, { density: "compact" }).size).toBe(
+      1,
+    );
+  });
+
+  test("resolves only sets and modifiers of given resolver", async () => {
+    const result = await parseTokenResolver(themeResolver, "resolver-1");
+    const nodes = new Map<string, TreeNode<TreeNodeMeta>>(
+      result.nodes.map((n) => [n.nodeId, n]),
+    );
+    nodes.set("resolver-1", {
+      nodeId: "resolver-1",
+      parentId: undefined,
+      index: "a0",
+      meta: { nodeType: "resolver", name: "Apps" },
+    });
+    expect(resolveTokenSet(nodes, undefined).size).toBe(0);
+    expect(resolveTokenSet(nodes, "resolver-1").size).toBe(6);
+  });
+});
+
+describe("resolveDesignTokens", () => {
+  const parseNodes = async (input: unknown) => {
+    const result = await parseTokenResolver(input);
+    expect(result.errors).toHaveLength(0);
+    return new Map(result.nodes.map((n) => [n.nodeId, n]));
+  };
+
+  const themeResolver = {
+    version: "2025.10",
+    resolutionOrder: [
+      {
+        type: "set",
+        name: "Base",
+        sources: [
+          {
+            space: {
+              $type: "dimension",
+              md: { $value: { value: 8, unit: "px" } },
+            },
+          },
+        ],
+      },
+      {
+        type: "modifier",
+        name: "Theme",
+        default: "light",
+        contexts: {
+          light: [
+            { gap: { $type: "dimension", $value: { value: 4, unit: "px" } } },
+          ],
+          dark: [
+            { gap: { $type: "dimension", $value: { value: 6, unit: "px" } } },
+          ],
+        },
+      },
+    ],
+  };
+
+  test("resolves sets with default or given contexts", async () => {
+    const nodes = await parseNodes(themeResolver);
+    const getGap = (resolved: Map<string, TreeNode<TreeNodeMeta>>) => {
+      const gap = Array.from(resolved.values()).find(
+        (node) => node.meta.name === "gap",
+      );
+      return gap && resolveTokenValue(gap, resolved).value;
+    };
+    expect(getGap(resolveDesignTokens(nodes))).toEqual({
+      value: 4,
+      unit: "px",
+    });
+    expect(getGap(resolveDesignTokens(nodes, { Theme: "dark" }))).toEqual({
+      value: 6,
+      unit: "px",
+    });
+    expect(resolveDesignTokens(nodes).size).toBe(3);
+  });
+
+  test("keeps plain token tree as is", () => {
+    const nodes = new Map<string, TreeNode<TreeNodeMeta>>([
+      [
+        "group",
+        {
+          nodeId: "group",
+          parentId: undefined,
+          index: "a0",
+          meta: { nodeType: "token-group", name: "space" },
+        },
+      ],
+      [
+        "token",
+        {
+          nodeId: "token",
+          parentId: "group",
+          index: "a0",
+          meta: {
+            nodeType: "token",
+            name: "md",
+            type: "dimension",
+            value: { value: 8, unit: "px" },
+          },
+        },
+      ],
+    ]);
+    expect(resolveDesignTokens(nodes)).toEqual(nodes);
+  });
+
+  test("inherits tokens of extended groups after merging sets", async () => {
+    const nodes = await parseNodes({
+      version: "2025.10",
+      resolutionOrder: [
+        {
+          type: "set",
+          name: "Button",
+          sources: [
+            {
+              button: {
+                $type: "dimension",
+                base: {
+                  padding: { $value: { value: 8, unit: "px" } },
+                  radius: { $value: { value: 4, unit: "px" } },
+                },
+                large: {
+                  $extends: "{button.base}",
+                  padding: { $value: { value: 16, unit: "px" } },
+                },
+              },
+            },
+          ],
+        },
+        {
+          type: "modifier",
+          name: "Density",
+          default: "regular",
+          contexts: {
+            regular: [],
+            rounded: [
+              {
+                button: {
+                  base: {
+                    radius: {
+                      $type: "dimension",
+                      $value: { value: 12, unit: "px" },
+                    },
+                  },
+                },
+              },
+            ],
+          },
+        },
+      ],
+    });
+    const getLarge = (resolved: Map<string, TreeNode<TreeNodeMeta>>) => {
+      const large = Array.from(resolved.values()).find(
+        (node) => node.meta.name === "large",
+      );
+      return Object.fromEntries(
+        Array.from(resolved.values())
+          .filter((node) => node.parentId === large?.nodeId)
+          .map((node) => [
+            node.meta.name,
+            resolveTokenValue(node, resolved).value,
+          ]),
+      );
+    };
+    expect(getLarge(resolveDesignTokens(nodes))).toEqual({
+      padding: { value: 16, unit: "px" },
+      radius: { value: 4, unit: "px" },
+    });
+    expect(
+      getLarge(resolveDesignTokens(nodes, { Density: "rounded" })),
+    ).toEqual({
+      padding: { value: 16, unit: "px" },
+      radius: { value: 12, unit: "px" },
+    });
+  });
+
+  test("finds non-default dark context", async () => {
+    const nodes = await parseNodes(themeResolver);
+    expect(getDarkModeInputs(nodes)).toEqual({ Theme: "dark" });
+    expect(getDarkModeInputs(new Map())).toBeUndefined();
+  });
+});
+
+describe("serializeTokenResolverFiles", () => {
+  const color = {
+    $type: "color",
+    $value: { colorSpace: "srgb", components: [0, 0, 1] },
+  };
+
+  test("keeps file names of imported sets and contexts", async () => {
+    const files: Record<string, Record<string, unknown>> = {
+      "global/color.tokens.json": { blue: color },
+      "theme/light.tokens.json": { surface: { $value: "{blue}" } },
+      "theme/dark.tokens.json": { surface: { $value: "{blue}" } },
+    };
+    const resolved = await resolveResolverRefs(
+      {
+        version: "2025.10",
+        sets: {
+          primitive: {
+            description: "Primitive tokens",
+            sources: [{ $ref: "global/color.tokens.json" }],
+          },
+        },
+        modifiers: {
+          theme: {
+            default: "light",
+            contexts: {
+              light: [{ $ref: "theme/light.tokens.json" }],
+              dark: [{ $ref: "theme/dark.tokens.json" }],
+            },
+          },
+        },
+        resolutionOrder: [
+          { $ref: "#/sets/primitive" },
+          { $ref: "#/modifiers/theme" },
+        ],
+      },
+      { fileLoader: (path) => files[path] },
+    );
+    const result = await parseTokenResolver(resolved);
+    expect(result.errors).toHaveLength(0);
+    const nodes = new Map(result.nodes.map((n) => [n.nodeId, n]));
+    const output = serializeTokenResolverFiles(nodes);
+    expect(Object.keys(output)).toEqual([
+      "global/color.tokens.json",
+      "theme/light.tokens.json",
+      "theme/dark.tokens.json",
+      "tokens.resolver.json",
+    ]);
+    expect(output["tokens.resolver.json"]).toEqual({
+      version: "2025.10",
+      sets: {
+        primitive: {
+          description: "Primitive tokens",
+          sources: [{ $ref: "global/color.tokens.json" }],
+        },
+      },
+      modifiers: {
+        theme: {
+          default: "light",
+          contexts: {
+            light: [{ $ref: "theme/light.tokens.json" }],
+            dark: [{ $ref: "theme/dark.tokens.json" }],
+          },
+        },
+      },
+      resolutionOrder: [
+        { $ref: "#/sets/primitive" },
+        { $ref: "#/modifiers/theme" },
+      ],
+    });
+    expect(output["global/color.tokens.json"]).toEqual({ blue: color });
+    expect(output["theme/dark.tokens.json"]).toEqual({
+      surface: { $type: "color", $value: "{blue}" },
+    });
+  });
+
+  test("omits imported file names from inline resolver", async () => {
+    const files: Record<string, Record<string, unknown>> = {
+      "color.tokens.json": { blue: color },
+      "theme/dark.tokens.json": { surface: { $value: "{blue}" } },
+    };
+    const resolved = await resolveResolverRefs(
+      {
+        version: "2025.10",
+        resolutionOrder: [
+          {
+            type: "set",
+            name: "primitive",
+            sources: [{ $ref: "color.tokens.json" }],
+            $extensions: { "com.example": true },
+          },
+          {
+            type: "modifier",
+            name: "theme",
+            contexts: { dark: [{ $ref: "theme/dark.tokens.json" }] },
+          },
+        ],
+      },
+      { fileLoader: (path) => files[path] },
+    );
+    const result = await parseTokenResolver(resolved);
+    expect(result.errors).toHaveLength(0);
+    const nodes = new Map(result.nodes.map((n) => [n.nodeId, n]));
+    const document = serializeTokenResolver(nodes);
+    expect(JSON.stringify(document)).not.toContain(sourceFileExtensionKey);
+    expect(document.resolutionOrder[0].$extensions).toEqual({
+      "com.example": true,
+    });
+    expect(document.resolutionOrder[1].$extensions).toBeUndefined();
+    // file names are still known to multi-file export
+    expect(Object.keys(serializeTokenResolverFiles(nodes))).toEqual([
+      "color.tokens.json",
+      "theme/dark.tokens.json",
+      "tokens.resolver.json",
+    ]);
+  });
+
+  test("names files after sets and contexts", async () => {
+    const result = await parseTokenResolver({
+      version: "2025.10",
+      resolutionOrder: [
+        { type: "set", name: "Base Colors", sources: [{ blue: color }] },
+        {
+          type: "modifier",
+          name: "Color Scheme",
+          contexts: { darkMode: [{ blue: color }] },
+        },
+      ],
+    });
+    const nodes = new Map(result.nodes.map((n) => [n.nodeId, n]));
+    expect(Object.keys(serializeTokenResolverFiles(nodes))).toEqual([
+      "base-colors.tokens.json",
+      "color-scheme/dark-mode.tokens.json",
+      "tokens.resolver.json",
+    ]);
+  });
+
+  test("writes resolver per resolver node and shares equal files", async () => {
+    const nodes = new Map<string, TreeNode<TreeNodeMeta>>();
+    for (const [resolverName, components] of [
+      ["Apps", [0, 0, 1]],
+      ["Docs", [0, 0, 1]],
+      ["Sites", [1, 0, 0]],
+    ] as const) {
+      nodes.set(resolverName, {
+        nodeId: resolverName,
+        parentId: undefined,
+        index: resolverName,
+        meta: { nodeType: "resolver", name: resolverName },
+      });
+      nodes.set(`${resolverName}-set`, {
+        nodeId: `${resolverName}-set`,
+        parentId: resolverName,
+        index: "a0",
+        meta: { nodeType: "token-set", name: "Base" },
+      });
+      nodes.set(`${resolverName}-token`, {
+        nodeId: `${resolverName}-token`,
+        parentId: `${resolverName}-set`,
+        index: "a0",
+        meta: {
+          nodeType: "token",
+          name: "blue",
+          type: "color",
+          value: { colorSpace: "srgb", components: [...components] },
+        },
+      });
+    }
+    const output = serializeTokenResolverFiles(nodes);
+    expect(Object.keys(output)).toEqual([
+      "base.tokens.json",
+      "apps.resolver.json",
+      "docs.resolver.json",
+      "base-2.tokens.json",
+      "sites.resolver.json",
+    ]);
+    expect(output["sites.resolver.json"]).toMatchObject({
+      name: "Sites",
+      sets: { Base: { sources: [{ $ref: "base-2.tokens.json" }] } },
+    });
+  });
 });
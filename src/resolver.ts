@@ -1,4 +1,5 @@
 import { prettifyError } from "zod";
+import { kebabCase } from "change-case";
 import { generateKeyBetween } from "fractional-indexing";
 import $RefParser from "@apidevtools/json-schema-ref-parser";
 import {
@@ -16,18 +17,23 @@ import {
   extractIntermediaryNodes,
   resolveIntermediaryNodes,
   type IntermediaryNode,
+  type SerializeOptions,
 } from "./tokens";
 import { compareTreeNodes } from "./store";
-import type {
-  GroupMeta,
-  ModifierMeta,
-  ModifierContextMeta,
-  ResolverMeta,
-  SetMeta,
-  TokenMeta,
-  TreeNodeMeta,
+import {
+  mapNodeRefs,
+  resolveGroupExtends,
+  resolveTokenValue,
+  type GroupMeta,
+  type ModifierMeta,
+  type ModifierContextMeta,
+  type ResolverMeta,
+  type SetMeta,
+  type TokenMeta,
+  type TreeNodeMeta,
 } from "./state.svelte";
 import type { TreeNode } from "./store";
+import type { NodeRef, Value } from "./schema";
 
 type ParseResult = {
   nodes: TreeNode<TreeNodeMeta>[];
@@ -44,6 +50,46 @@ export type ResolveOptions =
   | { baseUrl: string } // Fetch files relative to this URL
   | { fileLoader: FileLoader }; // Use custom loader (e.g., for uploaded files)
 
+// Relative path of the file a set or modifier context was loaded from
+export const sourceFileExtensionKey = "dev.engramma.source-file";
+
+const withSourceFile = (
+  extensions: undefined | Record<string, unknown>,
+  sourceFile: undefined | string | Record<string, string>,
+) => {
+  if (
+    sourceFile === undefined ||
+    (typeof sourceFile === "object" && Object.keys(sourceFile).length === 0)
+  ) {
+    return extensions;
+  }
+  return { ...extensions, [sourceFileExtensionKey]: sourceFile };
+};
+
+const omitSourceFile = (extensions: undefined | Record<string, unknown>) => {
+  if (!extensions || !(sourceFileExtensionKey in extensions)) {
+    return extensions;
+  }
+  const rest = { ...extensions };
+  delete rest[sourceFileExtensionKey];
+  return Object.keys(rest).length > 0 ? rest : undefined;
+};
+
+const getSourceFileExtension = (
+  extensions: undefined | Record<string, unknown>,
+) => {
+  const sourceFile = extensions?.[sourceFileExtensionKey];
+  return typeof sourceFile === "string" ? sourceFile : undefined;
+};
+
+export const escapeJsonPointer = (name: string) => {
+  return name.replaceAll("~", "~0").replaceAll("/", "~1");
+};
+
+const unescapeJsonPointer = (name: string) => {
+  return name.replaceAll("~1", "/").replaceAll("~0", "~");
+};
+
 // Check if an object is a $ref object
 export const isRefObject = (obj: unknown): obj is RefObject => {
   return (
@@ -264,6 +310,30 @@ export const resolveResolverRefs = async (
     return results.filter((r): r is ResolverSource => r !== null);
   };
 
+  // File name is kept only when set or context is loaded from a single file
+  const getSourceFile = (sources: SourceItem[]) => {
+    const [source] = sources;
+    if (
+      sources.length === 1 &&
+      isRefObject(source) &&
+      !source.$ref.startsWith("#")
+    ) {
+      return source.$ref;
+    }
+  };
+
+  // Source files of modifier contexts are stored by context name
+  const getContextSourceFiles = (contexts: Record<string, SourceItem[]>) => {
+    const sourceFiles: Record<string, string> = {};
+    for (const [contextName, sources] of Object.entries(contexts)) {
+      const sourceFile = getSourceFile(sources);
+      if (sourceFile) {
+        sourceFiles[contextName] = sourceFile;
+      }
+    }
+    return sourceFiles;
+  };
+
   // Build the resolved resolutionOrder array
   const resolvedResolutionOrder: (
     | ResolvedResolverSet
@@ -276,7 +346,7 @@ export const resolveResolverRefs = async (
 
       // Internal reference to root-level sets
       if (ref.startsWith("#/sets/")) {
-        const setName = ref.replace("#/sets/", "");
+        const setName = unescapeJsonPointer(ref.replace("#/sets/", ""));
         const set = resolverDoc.sets?.[setName];
         if (set) {
           const resolvedSources = await resolveSources(set.sources);
@@ -284,7 +354,10 @@ export const resolveResolverRefs = async (
             type: "set",
             name: setName,
             description: set.description,
-            $extensions: set.$extensions,
+            $extensions: withSourceFile(
+              set.$extensions,
+              getSourceFile(set.sources),
+            ),
             sources: resolvedSources,
           });
         }
@@ -292,7 +365,9 @@ export const resolveResolverRefs = async (
 
       // Internal reference to root-level modifiers
       if (ref.startsWith("#/modifiers/")) {
-        const modifierName = ref.replace("#/modifiers/", "");
+        const modifierName = unescapeJsonPointer(
+          ref.replace("#/modifiers/", ""),
+        );
         const modifier = resolverDoc.modifiers?.[modifierName];
         if (modifier) {
           const resolvedContexts: Record<string, ResolverSource[]> = {};
@@ -306,7 +381,10 @@ export const resolveResolverRefs = async (
             name: modifierName,
             description: modifier.description,
             default: modifier.default,
-            $extensions: modifier.$extensions,
+            $extensions: withSourceFile(
+              modifier.$extensions,
+              getContextSourceFiles(modifier.contexts),
+            ),
             contexts: resolvedContexts,
           });
         }
@@ -318,7 +396,10 @@ export const resolveResolverRefs = async (
         type: "set",
         name: item.name,
         description: item.description,
-        $extensions: item.$extensions,
+        $extensions: withSourceFile(
+          item.$extensions,
+          getSourceFile(item.sources),
+        ),
         sources: resolvedSources,
       });
     } else if (item.type === "modifier") {
@@ -332,7 +413,10 @@ export const resolveResolverRefs = async (
         name: item.name,
         description: item.description,
         default: item.default,
-        $extensions: item.$extensions,
+        $extensions: withSourceFile(
+          item.$extensions,
+          getContextSourceFiles(item.contexts),
+        ),
         contexts: resolvedContexts,
       });
     }
@@ -574,10 +658,14 @@ export const parseTokenResolver = async (
           name: item.name,
           description: item.description,
           default: item.default,
-          extensions: item.$extensions,
+          extensions: omitSourceFile(item.$extensions),
         },
       };
       allNodes.push(modifierNode);
+      // source files of contexts are moved to context nodes
+      const contextSourceFiles = item.$extensions?.[sourceFileExtensionKey] as
+        | undefined
+        | Record<string, string>;
 
       // Create context nodes as children of the modifier
       for (const [contextName] of Object.entries(item.contexts)) {
@@ -618,6 +706,10 @@ export const parseTokenResolver = async (
           meta: {
             nodeType: "modifier-context",
             name: contextName,
+            extensions: withSourceFile(
+              undefined,
+              contextSourceFiles?.[contextName],
+            ),
           },
         };
         allNodes.push(contextNode);
@@ -687,6 +779,74 @@ export const parseTokenResolver = async (
   };
 };
 
+// Serialize tokens and groups under set or modifier context node as tokens document
+export const serializeChildTokens = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  parentNodeId: string,
+  options?: SerializeOptions,
+) => {
+  const childrenByParent = new Map<string, TreeNode<TreeNodeMeta>[]>();
+  for (const node of nodes.values()) {
+    if (node.parentId !== undefined) {
+      const children = childrenByParent.get(node.parentId) ?? [];
+      children.push(node);
+      childrenByParent.set(node.parentId, children);
+    }
+  }
+  const subtree = new Map<string, TreeNode<TreeNodeMeta>>();
+  const collectDescendants = (nodeId: string) => {
+    for (const child of childrenByParent.get(nodeId) ?? []) {
+      // Re-parent direct children to root (undefined) without mutating original nodes
+      subtree.set(
+        child.nodeId,
+        child.parentId === parentNodeId
+          ? { ...child, parentId: undefined }
+          : child,
+      );
+      collectDescendants(child.nodeId);
+    }
+  };
+  collectDescendants(parentNodeId);
+  return serializeDesignTokens(
+    subtree as Map<string, TreeNode<TokenMeta | GroupMeta>>,
+    nodes as Map<string, TreeNode<TokenMeta | GroupMeta>>, // Pass all nodes for cross-set reference lookup
+    options,
+  );
+};
+
+// Sets and modifiers under resolver node or at root in document order
+const getResolutionItems = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  resolverNodeId: undefined | string,
+) => {
+  const items: Array<TreeNode<SetMeta | ModifierMeta>> = [];
+  for (const node of nodes.values()) {
+    if (
+      node.parentId === resolverNodeId &&
+      (node.meta.nodeType === "token-set" || node.meta.nodeType === "modifier")
+    ) {
+      items.push(node as TreeNode<SetMeta | ModifierMeta>);
+    }
+  }
+  return items.sort(compareTreeNodes);
+};
+
+const getModifierContexts = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  modifierNodeId: string,
+) => {
+  const contextNodes: Array<TreeNode<ModifierContextMeta>> = [];
+  for (const node of nodes.values()) {
+    if (
+      node.parentId === modifierNodeId &&
+      node.meta.nodeType === "modifier-context"
+    ) {
+      contextNodes.push(node as TreeNode<ModifierContextMeta>);
+    }
+  }
+  return contextNodes.sort(compareTreeNodes);
+};
+
 /**
  * Serializes tree nodes back into a ResolvedResolverDocument following the Design Tokens Resolver Module 2025.10 specification.
  *
@@ -736,56 +896,17 @@ export const serializeTokenResolver = (
   for (const rootNode of rootNodes) {
     if (rootNode.meta.nodeType === "modifier") {
       const modifierNode = rootNode as TreeNode<ModifierMeta>;
-      // Collect context children of this modifier
-      const contextNodes: Array<TreeNode<ModifierContextMeta>> = [];
-      for (const node of nodes.values()) {
-        if (
-          node.parentId === modifierNode.nodeId &&
-          node.meta.nodeType === "modifier-context"
-        ) {
-          contextNodes.push(node as TreeNode<ModifierContextMeta>);
-        }
-      }
-      contextNodes.sort(compareTreeNodes);
-
       // Build contexts object
       const contexts: Record<string, ResolverSource[]> = {};
-      for (const contextNode of contextNodes) {
-        // Create a filtered map containing only this context's descendants
-        const contextSubtree = new Map<string, TreeNode<TreeNodeMeta>>();
-        const collectDescendants = (
-          nodeId: string | undefined,
-          parentNodeId: string,
-        ) => {
-          let node = nodeId ? nodes.get(nodeId) : undefined;
-          if (!node) {
-            return;
-          }
-          // Skip modifier and modifier-context nodes
-          if (
-            node.meta.nodeType !== "modifier" &&
-            node.meta.nodeType !== "modifier-context"
-          ) {
-            // Re-parent direct children of context to root (undefined)
-            if (node.parentId === parentNodeId) {
-              node = { ...node, parentId: undefined };
-            }
-            contextSubtree.set(node.nodeId, node);
-          }
-          // Recursively collect all children
-          for (const child of nodes.values()) {
-            if (child.parentId === nodeId) {
-              collectDescendants(child.nodeId, parentNodeId);
-            }
-          }
-        };
-
-        collectDescendants(contextNode.nodeId, contextNode.nodeId);
-        const source = serializeDesignTokens(
-          contextSubtree as Map<string, TreeNode<TokenMeta | GroupMeta>>,
-          nodes as Map<string, TreeNode<TokenMeta | GroupMeta>>,
-        );
-        contexts[contextNode.meta.name] = [source];
+      for (const contextNode of getModifierContexts(
+        nodes,
+        modifierNode.nodeId,
+      )) {
+        contexts[contextNode.meta.name] = [
+          serializeChildTokens(nodes, contextNode.nodeId, {
+            jsonPointerRefs: true,
+          }),
+        ];
       }
 
       resolutionOrder.push({
@@ -793,47 +914,22 @@ export const serializeTokenResolver = (
         name: modifierNode.meta.name,
         description: modifierNode.meta.description,
         default: modifierNode.meta.default,
-        $extensions: modifierNode.meta.extensions,
+        // source files only make sense in multi-file export
+        $extensions: omitSourceFile(modifierNode.meta.extensions),
         contexts,
       });
     } else {
       const setNode = rootNode as TreeNode<SetMeta>;
-      // Create a filtered map containing only this set's descendants (excluding the set node itself)
-      // serializeDesignTokens expects token and group nodes, not token-set nodes
-      const setSubtree = new Map<string, TreeNode<TreeNodeMeta>>();
-      const collectDescendants = (nodeId: string | undefined) => {
-        let node = nodeId ? nodes.get(nodeId) : undefined;
-        if (!node) {
-          return;
-        }
-        // Skip the token-set node itself, only collect token and group children
-        if (node.meta.nodeType !== "token-set") {
-          // Re-parent direct children of token-set to root (undefined)
-          if (node.parentId === setNode.nodeId) {
-            // avoid mutating original nodes
-            node = { ...node, parentId: undefined };
-          }
-          setSubtree.set(node.nodeId, node);
-        }
-        // Recursively collect all children
-        for (const child of nodes.values()) {
-          if (child.parentId === nodeId) {
-            collectDescendants(child.nodeId);
-          }
-        }
-      };
-
-      collectDescendants(setNode.nodeId);
-      const source = serializeDesignTokens(
-        setSubtree as Map<string, TreeNode<TokenMeta | GroupMeta>>,
-        nodes as Map<string, TreeNode<TokenMeta | GroupMeta>>, // Pass all nodes for cross-set reference lookup
-      );
       resolutionOrder.push({
         type: "set",
         name: setNode.meta.name,
         description: setNode.meta.description,
-        $extensions: setNode.meta.extensions,
-        sources: [source],
+        $extensions: omitSourceFile(setNode.meta.extensions),
+        sources: [
+          serializeChildTokens(nodes, setNode.nodeId, {
+            jsonPointerRefs: true,
+          }),
+        ],
       });
     }
   }
@@ -845,3 +941,376 @@ export const serializeTokenResolver = (
     resolutionOrder,
   };
 };
+
+/**
+ * Serialize every resolver into its own resolver document and every set
+ * and modifier context into its own tokens file referenced with $ref.
+ * Sets and modifiers without resolver go to tokens.resolver.json.
+ * Imported files keep their relative paths, others are named after nodes.
+ *
+ * @returns JSON document by file path relative to resolver documents
+ */
+export const serializeTokenResolverFiles = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+): Record<string, unknown> => {
+  const files: Record<string, unknown> = {};
+  // shared files are written once, different content with the same path gets suffix
+  const addFile = (path: string, content: unknown) => {
+    let filePath = path;
+    for (
+      let counter = 2;
+      filePath in files &&
+      JSON.stringify(files[filePath]) !== JSON.stringify(content);
+      counter += 1
+    ) {
+      filePath = path.replace(/(\.tokens)?\.json$/, `-${counter}$&`);
+    }
+    files[filePath] = content;
+    return filePath;
+  };
+
+  const resolvers: Array<{ nodeId?: string; meta?: ResolverMeta }> = [];
+  const resolverNodes = Array.from(nodes.values())
+    .filter((node) => node.meta.nodeType === "resolver")
+    .sort(compareTreeNodes) as Array<TreeNode<ResolverMeta>>;
+  if (getResolutionItems(nodes, undefined).length > 0) {
+    resolvers.push({});
+  }
+  resolvers.push(...resolverNodes);
+
+  for (const { nodeId, meta } of resolvers) {
+    const sets: NonNullable<ResolverDocument["sets"]> = {};
+    const modifiers: NonNullable<ResolverDocument["modifiers"]> = {};
+    const resolutionOrder: ResolverDocument["resolutionOrder"] = [];
+    for (const item of getResolutionItems(nodes, nodeId)) {
+      if (item.meta.nodeType === "token-set") {
+        const sourceFile =
+          getSourceFileExtension(item.meta.extensions) ??
+          `${kebabCase(item.meta.name)}.tokens.json`;
+        const path = addFile(
+          sourceFile,
+          serializeChildTokens(nodes, item.nodeId, { jsonPointerRefs: true }),
+        );
+        sets[item.meta.name] = {
+          description: item.meta.description,
+          $extensions: omitSourceFile(item.meta.extensions),
+          sources: [{ $ref: path }],
+        };
+        resolutionOrder.push({
+          $ref: `#/sets/${escapeJsonPointer(item.meta.name)}`,
+        });
+      } else {
+        const modifierMeta = item.meta as ModifierMeta;
+        const contexts: Record<string, SourceItem[]> = {};
+        for (const contextNode of getModifierContexts(nodes, item.nodeId)) {
+          const sourceFile =
+            getSourceFileExtension(contextNode.meta.extensions) ??
+            `${kebabCase(modifierMeta.name)}/${kebabCase(contextNode.meta.name)}.tokens.json`;
+          const path = addFile(
+            sourceFile,
+            serializeChildTokens(nodes, contextNode.nodeId, {
+              jsonPointerRefs: true,
+            }),
+          );
+          contexts[contextNode.meta.name] = [{ $ref: path }];
+        }
+        modifiers[modifierMeta.name] = {
+          description: modifierMeta.description,
+          default: modifierMeta.default,
+          $extensions: omitSourceFile(modifierMeta.extensions),
+          contexts,
+        };
+        resolutionOrder.push({
+          $ref: `#/modifiers/${escapeJsonPointer(modifierMeta.name)}`,
+        });
+      }
+    }
+    const document: ResolverDocument = {
+      version: "2025.10",
+      name: meta?.name,
+      description: meta?.description,
+      sets,
+      modifiers,
+      resolutionOrder,
+    };
+    addFile(
+      `${meta ? kebabCase(meta.name) : "tokens"}.resolver.json`,
+      document,
+    );
+  }
+  return files;
+};
+
+/**
+ * Compute the final token set of a resolver for chosen modifier inputs
+ *
+ * Sets and the selected context of every modifier are merged following
+ * resolution order: later tokens override earlier ones with the same path
+ * and groups with the same path are merged into the first one.
+ * Modifiers without input fall back to their default context.
+ *
+ * Returned nodes are flattened (no resolver, set, modifier or context nodes)
+ * and every reference is redirected to the token which won at the referenced path,
+ * so aliases from base sets follow overrides in the selected contexts.
+ *
+ * @param nodes - All tree nodes
+ * @param resolverNodeId - Resolver node, undefined for sets and modifiers at root
+ * @param inputs - Context name by modifier name
+ */
+export const resolveTokenSet = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  resolverNodeId: string | undefined,
+  inputs: Record<string, string> = {},
+): Map<string, TreeNode<TreeNodeMeta>> => {
+  const childrenByParent = new Map<
+    string | undefined,
+    TreeNode<TreeNodeMeta>[]
+  >();
+  for (const node of nodes.values()) {
+    const children = childrenByParent.get(node.parentId) ?? [];
+    children.push(node);
+    childrenByParent.set(node.parentId, children);
+  }
+  for (const children of childrenByParent.values()) {
+    children.sort(compareTreeNodes);
+  }
+
+  // path of every token and group from all sets and contexts
+  // including unselected ones to redirect references into them
+  const pathByNodeId = new Map<string, string>();
+  const collectPaths = (parentId: string, parentPath: string[]) => {
+    for (const child of childrenByParent.get(parentId) ?? []) {
+      const path = [...parentPath, child.meta.name];
+      pathByNodeId.set(child.nodeId, path.join("."));
+      collectPaths(child.nodeId, path);
+    }
+  };
+  const sourceIds: string[] = [];
+  for (const item of childrenByParent.get(resolverNodeId) ?? []) {
+    if (item.meta.nodeType === "token-set") {
+      collectPaths(item.nodeId, []);
+      sourceIds.push(item.nodeId);
+    }
+    if (item.meta.nodeType === "modifier") {
+      const contextName = inputs[item.meta.name] ?? item.meta.default;
+      for (const context of childrenByParent.get(item.nodeId) ?? []) {
+        collectPaths(context.nodeId, []);
+        if (context.meta.name === contextName) {
+          sourceIds.push(context.nodeId);
+        }
+      }
+    }
+  }
+
+  const nodeByPath = new Map<string, TreeNode<TreeNodeMeta>>();
+  const mergeNode = (node: TreeNode<TreeNodeMeta>, parentPath: string[]) => {
+    const path = [...parentPath, node.meta.name];
+    const key = path.join(".");
+    const parentId =
+      parentPath.length > 0
+        ? nodeByPath.get(parentPath.join("."))?.nodeId
+        : undefined;
+    const existing = nodeByPath.get(key);
+    if (
+      existing?.meta.nodeType === "token-group" &&
+      node.meta.nodeType === "token-group"
+    ) {
+      nodeByPath.set(key, {
+        ...existing,
+        meta: {
+          ...existing.meta,
+          ...Object.fromEntries(
+            Object.entries(node.meta).filter(
+              ([, value]) => value !== undefined,
+            ),
+          ),
+        } as GroupMeta,
+      });
+    } else {
+      // token or group of different kind replaces the whole subtree
+      if (existing) {
+        for (const otherKey of nodeByPath.keys()) {
+          if (otherKey.startsWith(`${key}.`)) {
+            nodeByPath.delete(otherKey);
+          }
+        }
+      }
+      nodeByPath.set(key, { ...node, parentId });
+    }
+    for (const child of childrenByParent.get(node.nodeId) ?? []) {
+      mergeNode(child, path);
+    }
+  };
+  for (const sourceId of sourceIds) {
+    for (const child of childrenByParent.get(sourceId) ?? []) {
+      mergeNode(child, []);
+    }
+  }
+
+  const redirectRef = (nodeRef: NodeRef) => {
+    const path = pathByNodeId.get(nodeRef.ref);
+    const target = path ? nodeByPath.get(path) : undefined;
+    return target ? { ref: target.nodeId } : nodeRef;
+  };
+  const result = new Map<string, TreeNode<TreeNodeMeta>>();
+  for (const node of nodeByPath.values()) {
+    if (node.meta.nodeType === "token") {
+      const meta = mapNodeRefs(node.meta, redirectRef);
+      result.set(node.nodeId, { ...node, meta });
+    } else if (node.meta.nodeType === "token-group" && node.meta.extends) {
+      const meta = { ...node.meta, extends: redirectRef(node.meta.extends) };
+      result.set(node.nodeId, { ...node, meta });
+    } else {
+      result.set(node.nodeId, node);
+    }
+  }
+  // groups with $extends get inherited tokens of the merged groups
+  return resolveGroupExtends(result);
+};
+
+/**
+ * Resolve tokens of every resolver and plain token groups into one tree,
+ * modifiers use given inputs or their default contexts
+ */
+export const resolveDesignTokens = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  inputs: Record<string, string> = {},
+): Map<string, TreeNode<TreeNodeMeta>> => {
+  const result = new Map<string, TreeNode<TreeNodeMeta>>();
+  const plainIds = new Set<string>();
+  let hasRootContainers = false;
+  for (const node of nodes.values()) {
+    if (node.parentId === undefined) {
+      if (node.meta.nodeType === "resolver") {
+        for (const [nodeId, resolved] of resolveTokenSet(
+          nodes,
+          node.nodeId,
+          inputs,
+        )) {
+          result.set(nodeId, resolved);
+        }
+      } else if (
+        node.meta.nodeType === "token-set" ||
+        node.meta.nodeType === "modifier"
+      ) {
+        hasRootContainers = true;
+      } else {
+        plainIds.add(node.nodeId);
+      }
+    }
+  }
+  if (hasRootContainers) {
+    for (const [nodeId, resolved] of resolveTokenSet(
+      nodes,
+      undefined,
+      inputs,
+    )) {
+      result.set(nodeId, resolved);
+    }
+  }
+  // tokens outside of sets are kept as is
+  for (const node of nodes.values()) {
+    let rootId: undefined | string = node.nodeId;
+    let current: undefined | TreeNode<TreeNodeMeta> = node;
+    while (current?.parentId !== undefined) {
+      rootId = current.parentId;
+      current = nodes.get(current.parentId);
+    }
+    if (rootId && plainIds.has(rootId)) {
+      result.set(node.nodeId, node);
+    }
+  }
+  return resolveGroupExtends(result);
+};
+
+/**
+ * Find modifier inputs selecting dark context, e.g. { theme: "dark" }
+ */
+export const getDarkModeInputs = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+): undefined | Record<string, string> => {
+  for (const node of nodes.values()) {
+    if (node.meta.nodeType !== "modifier-context") {
+      continue;
+    }
+    const modifier = node.parentId ? nodes.get(node.parentId) : undefined;
+    if (
+      modifier?.meta.nodeType === "modifier" &&
+      node.meta.name.toLowerCase() === "dark" &&
+      modifier.meta.default !== node.meta.name
+    ) {
+      return { [modifier.meta.name]: node.meta.name };
+    }
+  }
+};
+
+const isContainerNode = (node: TreeNode<TreeNodeMeta>) =>
+  node.meta.nodeType === "resolver" ||
+  node.meta.nodeType === "token-set" ||
+  node.meta.nodeType === "modifier" ||
+  node.meta.nodeType === "modifier-context";
+
+/**
+ * Get path of token or group without resolver, set, modifier and context names
+ */
+export const getDesignTokenPath = (
+  nodeId: string,
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+) => {
+  const path: string[] = [];
+  let node = nodes.get(nodeId);
+  while (node && !isContainerNode(node)) {
+    path.unshift(node.meta.name);
+    node = node.parentId ? nodes.get(node.parentId) : undefined;
+  }
+  return { path: path.join("."), container: node };
+};
+
+const tokenSetPaths = new WeakMap<
+  Map<string, TreeNode<TreeNodeMeta>>,
+  Map<string, string>
+>();
+
+const getTokenSetPaths = (tokenSet: Map<string, TreeNode<TreeNodeMeta>>) => {
+  let nodeIdByPath = tokenSetPaths.get(tokenSet);
+  if (!nodeIdByPath) {
+    nodeIdByPath = new Map();
+    for (const node of tokenSet.values()) {
+      nodeIdByPath.set(
+        getDesignTokenPath(node.nodeId, tokenSet).path,
+        node.nodeId,
+      );
+    }
+    tokenSetPaths.set(tokenSet, nodeIdByPath);
+  }
+  return nodeIdByPath;
+};
+
+/**
+ * Resolve value of any token from the tree under a token set
+ * produced by resolveTokenSet
+ *
+ * Tokens from sets show the value which won at their path,
+ * tokens from contexts keep own value and resolve aliases through the token set.
+ */
+export const resolveTokenValueInSet = (
+  node: TreeNode<TreeNodeMeta>,
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  tokenSet: Map<string, TreeNode<TreeNodeMeta>>,
+): Value => {
+  const { path, container } = getDesignTokenPath(node.nodeId, nodes);
+  if (!container || node.meta.nodeType !== "token") {
+    return resolveTokenValue(node, nodes);
+  }
+  const nodeIdByPath = getTokenSetPaths(tokenSet);
+  const winner = tokenSet.get(nodeIdByPath.get(path) ?? "");
+  if (container.meta.nodeType === "token-set" && winner) {
+    return resolveTokenValue(winner, tokenSet);
+  }
+  const meta = mapNodeRefs(node.meta, (nodeRef) => {
+    const targetPath = getDesignTokenPath(nodeRef.ref, nodes).path;
+    const targetId = nodeIdByPath.get(targetPath);
+    return targetId ? { ref: targetId } : nodeRef;
+  });
+  return resolveTokenValue({ ...node, meta }, tokenSet);
+};
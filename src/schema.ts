@@ -30,6 +30,36 @@ export type NodeRef = z.infer<typeof nodeRefSchema>;
 export const isNodeRef = (value: unknown): value is NodeRef =>
   nodeRefSchema.safeParse(value).success;
 
+const fontWeightByName: Record<string, number> = {
+  thin: 100,
+  hairline: 100,
+  "extra-light": 200,
+  "ultra-light": 200,
+  light: 300,
+  normal: 400,
+  regular: 400,
+  book: 400,
+  medium: 500,
+  "semi-bold": 600,
+  "demi-bold": 600,
+  bold: 700,
+  "extra-bold": 800,
+  "ultra-bold": 800,
+  black: 900,
+  heavy: 900,
+  "extra-black": 950,
+  "ultra-black": 950,
+};
+
+/**
+ * Convert font weight alias like "semi-bold" into numeric weight
+ */
+export const toNumericFontWeight = (
+  value: z.infer<typeof fontWeightValue>,
+): number => {
+  return typeof value === "number" ? value : fontWeightByName[value];
+};
+
 const colorSchema = z.object({
   type: z.literal("color"),
   value: colorValue,
@@ -1,6 +1,10 @@
 import { test, expect, describe } from "vitest";
-import { generateScssVariables } from "./scss";
-import { parseDesignTokens } from "./tokens";
+import { generateScssVariables, parseScssVariables } from "./scss";
+import {
+  extractIntermediaryNodes,
+  parseDesignTokens,
+  resolveIntermediaryNodes,
+} from "./tokens";
 import type { TreeNode } from "./store";
 import type { TreeNodeMeta } from "./state.svelte";
 
@@ -580,3 +584,128 @@ describe("generateScssVariables", () => {
     );
   });
 });
+
+describe("parseScssVariables", () => {
+  test("returns empty object for empty input", () => {
+    expect(parseScssVariables("")).toEqual({});
+    expect(parseScssVariables(".button { color: red; }")).toEqual({});
+  });
+
+  test("detects types like css parser", () => {
+    const result = parseScssVariables(`
+      // brand colors
+      $color-primary: #0055ff;
+      $space-sm: 8px !default;
+      $duration-fast: 150ms;
+      $font-weight-bold: 700;
+      $font-body: "Inter", sans-serif;
+      /* shadows */
+      $shadow-sm: 0 1px 2px rgba(0, 0, 0, 0.1);
+    `);
+    expect(result).toMatchObject({
+      "color-primary": {
+        $type: "color",
+        $value: { colorSpace: "srgb", hex: "#0055ff" },
+      },
+      "space-sm": { $type: "dimension", $value: { value: 8, unit: "px" } },
+      "duration-fast": {
+        $type: "duration",
+        $value: { value: 150, unit: "ms" },
+      },
+      "font-weight-bold": { $type: "fontWeight", $value: 700 },
+      "font-body": { $type: "fontFamily", $value: ["Inter", "sans-serif"] },
+      "shadow-sm": { $type: "shadow" },
+    });
+  });
+
+  test("turns variable references into aliases", () => {
+    const result = parseScssVariables(`
+      $color-primary: #0055ff;
+      $color-link: $color-primary;
+      $border-focus: 2px solid $color-primary;
+    `);
+    expect(result["color-link"]).toEqual({ $value: "{color-primary}" });
+    expect(result["border-focus"]).toEqual({
+      $type: "border",
+      $value: {
+        width: { value: 2, unit: "px" },
+        style: "solid",
+        color: "{color-primary}",
+      },
+    });
+  });
+
+  test("computes arithmetic with variables", () => {
+    const result = parseScssVariables(`
+      $space-sm: 8px;
+      $space-alias: $space-sm;
+      $space-md: $space-sm * 2;
+      $space-lg: $space-alias + 16px;
+      $space-xs: math.div($space-sm, 2);
+      $ratio: 1.5 * 2;
+    `);
+    expect(result["space-md"]).toEqual({
+      $type: "dimension",
+      $value: { value: 16, unit: "px" },
+    });
+    expect(result["space-lg"]).toEqual({
+      $type: "dimension",
+      $value: { value: 24, unit: "px" },
+    });
+    expect(result["space-xs"]).toEqual({
+      $type: "dimension",
+      $value: { value: 4, unit: "px" },
+    });
+    expect(result.ratio).toEqual({ $type: "number", $value: 3 });
+  });
+
+  test("flattens maps into groups", () => {
+    const result = parseScssVariables(`
+      $colors: (
+        "primary": #0055ff,
+        text: (
+          default: #111111,
+          muted: #666666,
+        ),
+      );
+      $color-link: map.get($colors, primary);
+      $color-muted: map-get($colors, text, muted);
+    `);
+    expect(result).toMatchObject({
+      colors: {
+        primary: { $type: "color" },
+        text: {
+          default: { $type: "color" },
+          muted: { $type: "color" },
+        },
+      },
+      "color-link": { $value: "{colors.primary}" },
+      "color-muted": { $value: "{colors.text.muted}" },
+    });
+  });
+
+  test("keeps first definition for !default variables", () => {
+    const result = parseScssVariables(`
+      $space: 4px;
+      $space: 8px !default;
+    `);
+    expect(result.space).toEqual({
+      $type: "dimension",
+      $value: { value: 4, unit: "px" },
+    });
+  });
+
+  test("produces tokens which resolve aliases", () => {
+    const { nodes: intermediaryNodes } = extractIntermediaryNodes(
+      parseScssVariables(`
+        $colors: (primary: #0055ff);
+        $color-link: map.get($colors, primary);
+      `),
+    );
+    const { errors } = resolveIntermediaryNodes(
+      intermediaryNodes,
+      intermediaryNodes,
+    );
+    expect(errors).toEqual([]);
+  });
+});
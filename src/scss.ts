@@ -9,15 +9,19 @@ import {
   type RawShadowValue,
   type RawTransitionValue,
   type RawTypographyValue,
+  type DimensionValue,
   type StrokeStyleValue,
 } from "./schema";
 import {
+  parseCssValue,
+  splitBy,
   toCubicBezierValue,
   toDimensionValue,
   toDurationValue,
   toFontFamilyValue,
   toStrokeStyleValue,
 } from "./css-variables";
+import type { Group, Token } from "./dtcg.schema";
 import { serializeColor } from "./color";
 
 const referenceToVariable = (
@@ -277,3 +281,203 @@ export const generateScssVariables = (
   }
   return lines.join("\n");
 };
+
+type ScssOperand = { value: number; unit?: DimensionValue["unit"] };
+
+const toOperand = (token: undefined | Token): undefined | ScssOperand => {
+  const value = token?.$value;
+  if (typeof value === "number") {
+    return { value };
+  }
+  if (token?.$type === "dimension" && typeof value === "object") {
+    return value as DimensionValue;
+  }
+};
+
+/**
+ * Evaluate arithmetic between dimensions and numbers
+ */
+const evaluateOperation = (
+  left: ScssOperand,
+  operator: string,
+  right: ScssOperand,
+): undefined | ScssOperand => {
+  const unit = left.unit ?? right.unit;
+  if (left.unit && right.unit && left.unit !== right.unit) {
+    return;
+  }
+  switch (operator) {
+    case "*":
+      if (left.unit && right.unit) {
+        return;
+      }
+      return { value: left.value * right.value, unit };
+    case "/":
+      if (!left.unit && right.unit) {
+        return;
+      }
+      // dividing dimensions with the same unit gives a plain number
+      return {
+        value: left.value / right.value,
+        unit: right.unit ? undefined : left.unit,
+      };
+    case "+":
+    case "-":
+      if (Boolean(left.unit) !== Boolean(right.unit)) {
+        return;
+      }
+      return {
+        value:
+          operator === "+"
+            ? left.value + right.value
+            : left.value - right.value,
+        unit,
+      };
+  }
+};
+
+const scssMapGetRegex =
+  /map[.-]get\(\s*\$([\w-]+)\s*((?:,\s*["']?[\w-]+["']?\s*)+)\)/g;
+
+const scssVariableRegex = /\$([\w-]+)/g;
+
+/**
+ * Replace $variable and map.get($map, key) references with var()
+ * understood by css value parser, map keys are joined with dots
+ */
+const toCssReferences = (value: string) => {
+  return value
+    .replace(scssMapGetRegex, (_match, name: string, keys: string) => {
+      const path = [name, ...keys.split(",").slice(1)].map((key) =>
+        key.trim().replace(/^["']|["']$/g, ""),
+      );
+      return `var(--${path.join(".")})`;
+    })
+    .replace(scssVariableRegex, "var(--$1)");
+};
+
+const isScssMap = (value: string) => {
+  return (
+    value.startsWith("(") &&
+    value.endsWith(")") &&
+    splitBy(value.slice(1, -1), ",").some((entry) =>
+      /^["']?[\w-]+["']?\s*:/.test(entry),
+    )
+  );
+};
+
+/**
+ * Parse SCSS variables into DTCG format, types are detected like in css,
+ * $variable references become aliases and (key: value) maps become groups
+ */
+export const parseScssVariables = (
+  input: string,
+): Record<string, Token | Group> => {
+  let scssText = input
+    // Remove /* comments */
+    .replace(/\/\*[\s\S]*?\*\//g, "")
+    // Remove // comments except in urls
+    .replace(/(^|[^:])\/\/.*$/gm, "$1");
+  // Remove rule blocks with local variables, innermost first
+  let previousText;
+  do {
+    previousText = scssText;
+    scssText = scssText.replace(/[^{};]*\{[^{}]*\}/g, "");
+  } while (scssText !== previousText);
+
+  const result: Record<string, Token | Group> = {};
+  const tokensByPath = new Map<string, Token>();
+
+  const resolveOperand = (value: string) => {
+    const reference = toCssReferences(value).match(/^var\(--([\w.-]+)\)$/);
+    let token = reference
+      ? tokensByPath.get(reference[1])
+      : parseCssValue(value);
+    // follow aliases to computed value
+    for (let depth = 0; depth < 10; depth += 1) {
+      const alias =
+        typeof token?.$value === "string"
+          ? token.$value.match(/^\{(.+)\}$/)
+          : null;
+      if (!alias) {
+        break;
+      }
+      token = tokensByPath.get(alias[1]);
+    }
+    return toOperand(token);
+  };
+
+  const parseArithmetic = (value: string): undefined | Token => {
+    const division = value.match(/^math\.div\((.+),(.+)\)$/);
+    const operation = division
+      ? [value, division[1], "/", division[2]]
+      : value.match(/^(.+?)\s+([*/+-])\s+(.+)$/);
+    if (!operation) {
+      return;
+    }
+    const left = resolveOperand(operation[1].trim());
+    const right = resolveOperand(operation[3].trim());
+    const computed =
+      left && right && evaluateOperation(left, operation[2], right);
+    if (!computed) {
+      return;
+    }
+    if (computed.unit) {
+      return {
+        $type: "dimension",
+        $value: { value: computed.value, unit: computed.unit },
+      };
+    }
+    return { $type: "number", $value: computed.value };
+  };
+
+  const parseValue = (
+    path: string[],
+    value: string,
+  ): undefined | Token | Group => {
+    value = value.trim();
+    if (isScssMap(value)) {
+      const group: Record<string, Token | Group> = {};
+      for (const entry of splitBy(value.slice(1, -1), ",")) {
+        const colonIndex = entry.indexOf(":");
+        if (colonIndex === -1) {
+          continue;
+        }
+        const key = entry
+          .slice(0, colonIndex)
+          .trim()
+          .replace(/^["']|["']$/g, "");
+        const child = parseValue([...path, key], entry.slice(colonIndex + 1));
+        if (child) {
+          group[key] = child;
+        }
+      }
+      return group as Group;
+    }
+    const token =
+      parseArithmetic(value) ?? parseCssValue(toCssReferences(value));
+    if (token) {
+      tokensByPath.set(path.join("."), token);
+    }
+    return token;
+  };
+
+  for (const statement of splitBy(scssText, ";")) {
+    const match = statement.trim().match(/^\$([\w-]+)\s*:\s*([\s\S]+)$/);
+    if (!match) {
+      continue;
+    }
+    const name = match[1];
+    const isDefault = /!default/.test(match[2]);
+    // !default does not override already defined variable
+    if (isDefault && name in result) {
+      continue;
+    }
+    const value = match[2].replace(/!(default|global)/g, "").trim();
+    const token = parseValue([name], value);
+    if (token) {
+      result[name] = token;
+    }
+  }
+  return result;
+};
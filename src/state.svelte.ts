@@ -1,6 +1,12 @@
 import { formatError } from "zod";
 import { createSubscriber } from "svelte/reactivity";
-import { TreeStore, type Transaction, type TreeNode } from "./store";
+import { generateKeyBetween } from "fractional-indexing";
+import {
+  TreeStore,
+  compareTreeNodes,
+  type Transaction,
+  type TreeNode,
+} from "./store";
 import {
   type RawValue,
   type RawValueWithReference,
@@ -9,8 +15,7 @@ import {
   RawValueSchema,
   isNodeRef,
 } from "./schema";
-import { setDataInUrl } from "./url-data";
-import { serializeTokenResolver } from "./resolver";
+import { escapeJsonPointer, getDesignTokenPath } from "./resolver";
 import type { JsonPointerRefInfo } from "./tokens";
 
 export type ResolverMeta = {
@@ -49,6 +54,8 @@ export type GroupMeta = {
   description?: string;
   deprecated?: boolean | string;
   extensions?: Record<string, unknown>;
+  /** group inherits tokens and groups of referenced group */
+  extends?: NodeRef;
 };
 
 export type TokenMeta = {
@@ -231,6 +238,73 @@ export const getComponentReferences = (
   return refs;
 };
 
+/**
+ * Replace every reference in token value, whole token alias or component of composite
+ */
+export const mapNodeRefs = (
+  meta: TokenMeta,
+  callback: (nodeRef: NodeRef) => NodeRef,
+): TokenMeta => {
+  const mapRef = <T>(value: T | NodeRef): T | NodeRef =>
+    isNodeRef(value) ? callback(value) : value;
+  if (isNodeRef(meta.value)) {
+    return { ...meta, value: callback(meta.value) };
+  }
+  switch (meta.type) {
+    case "transition":
+      return {
+        ...meta,
+        value: {
+          duration: mapRef(meta.value.duration),
+          delay: mapRef(meta.value.delay),
+          timingFunction: mapRef(meta.value.timingFunction),
+        },
+      };
+    case "border":
+      return {
+        ...meta,
+        value: {
+          color: mapRef(meta.value.color),
+          width: mapRef(meta.value.width),
+          style: mapRef(meta.value.style),
+        },
+      };
+    case "shadow":
+      return {
+        ...meta,
+        value: meta.value.map((shadow) => ({
+          ...shadow,
+          color: mapRef(shadow.color),
+          offsetX: mapRef(shadow.offsetX),
+          offsetY: mapRef(shadow.offsetY),
+          blur: mapRef(shadow.blur),
+          spread: mapRef(shadow.spread),
+        })),
+      };
+    case "typography":
+      return {
+        ...meta,
+        value: {
+          fontFamily: mapRef(meta.value.fontFamily),
+          fontSize: mapRef(meta.value.fontSize),
+          fontWeight: mapRef(meta.value.fontWeight),
+          letterSpacing: mapRef(meta.value.letterSpacing),
+          lineHeight: mapRef(meta.value.lineHeight),
+        },
+      };
+    case "gradient":
+      return {
+        ...meta,
+        value: meta.value.map((stop) => ({
+          ...stop,
+          color: mapRef(stop.color),
+        })),
+      };
+    default:
+      return meta;
+  }
+};
+
 /**
  * Information about a JSON Pointer reference for display in the UI
  */
@@ -244,21 +318,9 @@ export type JsonPointerReference = {
 };
 
 /**
- * Get JSON Pointer references for a token
- * Returns the refs with resolved target node IDs for navigation
+ * Create lookup of token or group by JSON Pointer target path
  */
-export const getJsonPointerReferences = (
-  node: TreeNode<TreeNodeMeta>,
-  nodes: Map<string, TreeNode<TreeNodeMeta>>,
-): JsonPointerReference[] => {
-  if (node.meta.nodeType !== "token") {
-    return [];
-  }
-  const jsonPointerRefs = node.meta.jsonPointerRefs;
-  if (!jsonPointerRefs || jsonPointerRefs.length === 0) {
-    return [];
-  }
-
+const createTargetPathLookup = (nodes: Map<string, TreeNode<TreeNodeMeta>>) => {
   // Build maps for token path lookup
   // Full path map: "theme.light.color.palette.black" -> nodeId
   // We also need to match partial paths since JSON Pointer targets don't include container hierarchy
@@ -275,7 +337,7 @@ export const getJsonPointerReferences = (
   }
 
   // Find a node whose path ends with the target path
-  const findNodeByTargetPath = (targetPath: string): string | undefined => {
+  return (targetPath: string): string | undefined => {
     // First try exact match
     if (fullPathToNodeId.has(targetPath)) {
       return fullPathToNodeId.get(targetPath);
@@ -292,6 +354,25 @@ export const getJsonPointerReferences = (
     }
     return undefined;
   };
+};
+
+/**
+ * Get JSON Pointer references for a token
+ * Returns the refs with resolved target node IDs for navigation
+ */
+export const getJsonPointerReferences = (
+  node: TreeNode<TreeNodeMeta>,
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+): JsonPointerReference[] => {
+  if (node.meta.nodeType !== "token") {
+    return [];
+  }
+  const jsonPointerRefs = node.meta.jsonPointerRefs;
+  if (!jsonPointerRefs || jsonPointerRefs.length === 0) {
+    return [];
+  }
+
+  const findNodeByTargetPath = createTargetPathLookup(nodes);
 
   return jsonPointerRefs.map((ref) => ({
     componentKey: ref.componentKey,
@@ -300,6 +381,381 @@ export const getJsonPointerReferences = (
   }));
 };
 
+const compositePropertyTypes = {
+  transition: {
+    duration: "duration",
+    delay: "duration",
+    timingFunction: "cubicBezier",
+  },
+  border: { color: "color", width: "dimension", style: "strokeStyle" },
+  shadow: {
+    color: "color",
+    offsetX: "dimension",
+    offsetY: "dimension",
+    blur: "dimension",
+    spread: "dimension",
+  },
+  typography: {
+    fontFamily: "fontFamily",
+    fontSize: "dimension",
+    fontWeight: "fontWeight",
+    letterSpacing: "dimension",
+    lineHeight: "number",
+  },
+  gradient: { color: "color" },
+} satisfies Partial<Record<Value["type"], Record<string, Value["type"]>>>;
+
+/**
+ * Property of composite token value which can be referenced with JSON Pointer
+ */
+export type CompositeProperty = {
+  /** The component key used by JSON Pointer refs (e.g., "fontFamily", "[1].offsetY") */
+  key: string;
+  /** JSON Pointer path relative to $value (e.g., "fontFamily", "1/offsetY") */
+  pointer: string;
+  type: Value["type"];
+};
+
+/**
+ * List properties of composite value in the shape it is serialized,
+ * single shadow is written as object so its properties have no index
+ */
+export const getCompositeProperties = (
+  value: RawValueWithReference,
+): CompositeProperty[] => {
+  if (isNodeRef(value.value)) {
+    return [];
+  }
+  switch (value.type) {
+    case "transition":
+    case "border":
+    case "typography":
+      return Object.entries(compositePropertyTypes[value.type]).map(
+        ([key, type]) => ({ key, pointer: key, type }),
+      );
+    case "shadow":
+    case "gradient": {
+      const types = Object.entries(compositePropertyTypes[value.type]);
+      if (value.type === "shadow" && value.value.length === 1) {
+        return types.map(([key, type]) => ({ key, pointer: key, type }));
+      }
+      return value.value.flatMap((_item, index) =>
+        types.map(([key, type]) => ({
+          key: `[${index}].${key}`,
+          pointer: `${index}/${key}`,
+          type,
+        })),
+      );
+    }
+    default:
+      return [];
+  }
+};
+
+const parseComponentKey = (key: string) => {
+  const match = key.match(/^(?:\[(\d+)\]\.)?(\w+)$/);
+  return { index: Number(match?.[1] ?? 0), name: match?.[2] ?? key };
+};
+
+const getComponentValue = (value: RawValueWithReference, key: string) => {
+  const { index, name } = parseComponentKey(key);
+  const item = Array.isArray(value.value) ? value.value[index] : value.value;
+  return (item as undefined | Record<string, unknown>)?.[name];
+};
+
+const setComponentValue = (
+  meta: TokenMeta,
+  key: string,
+  componentValue: unknown,
+): TokenMeta => {
+  const { index, name } = parseComponentKey(key);
+  if (Array.isArray(meta.value)) {
+    return {
+      ...meta,
+      value: (meta.value as object[]).map((item, itemIndex) =>
+        itemIndex === index ? { ...item, [name]: componentValue } : item,
+      ),
+    } as TokenMeta;
+  }
+  return {
+    ...meta,
+    value: { ...(meta.value as object), [name]: componentValue },
+  } as TokenMeta;
+};
+
+/**
+ * Property of another composite token available for JSON Pointer reference
+ */
+export type JsonPointerTarget = CompositeProperty & {
+  /** The target token node ID */
+  nodeId: string;
+  /** The $ref target (e.g., "#/typography/text/primary/$value/fontFamily") */
+  targetRef: string;
+  /** The token path of target without sets and modifier contexts */
+  targetTokenPath: string;
+};
+
+// set or modifier context holding the node, undefined for tokens at root
+const getTokenContainer = (
+  nodeId: string,
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+) => {
+  let current = nodes.get(nodeId);
+  while (current) {
+    if (
+      current.meta.nodeType === "token-set" ||
+      current.meta.nodeType === "modifier-context"
+    ) {
+      return current;
+    }
+    current = current.parentId ? nodes.get(current.parentId) : undefined;
+  }
+};
+
+/**
+ * Containers which JSON Pointer refs are resolved against on import
+ * in merge order, set sees earlier sets and context sees all sets
+ */
+const getJsonPointerScope = (
+  nodeId: string,
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+): Array<undefined | string> => {
+  const container = getTokenContainer(nodeId, nodes);
+  if (!container) {
+    return [undefined];
+  }
+  const setsParentId =
+    container.meta.nodeType === "token-set"
+      ? container.parentId
+      : nodes.get(container.parentId ?? "")?.parentId;
+  const sets = Array.from(nodes.values())
+    .filter(
+      (node) =>
+        node.meta.nodeType === "token-set" &&
+        node.parentId === setsParentId &&
+        (container.meta.nodeType === "modifier-context" ||
+          compareTreeNodes(node, container) <= 0),
+    )
+    .sort(compareTreeNodes)
+    .map((node) => node.nodeId);
+  return container.meta.nodeType === "token-set"
+    ? sets
+    : [...sets, container.nodeId];
+};
+
+/**
+ * List properties of composite tokens resolvable from the given token,
+ * later containers override the same path like on import
+ */
+export const getJsonPointerTargets = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  nodeId: string,
+): JsonPointerTarget[] => {
+  const scope = getJsonPointerScope(nodeId, nodes);
+  const targetsByRef = new Map<string, JsonPointerTarget>();
+  const candidates = Array.from(nodes.values())
+    .filter((node) => node.meta.nodeType === "token" && node.nodeId !== nodeId)
+    .map((node) => ({
+      node: node as TreeNode<TokenMeta>,
+      order: scope.indexOf(getTokenContainer(node.nodeId, nodes)?.nodeId),
+    }))
+    .filter(({ order }) => order !== -1)
+    .sort((a, b) => a.order - b.order);
+  for (const { node } of candidates) {
+    const properties = getCompositeProperties(node.meta);
+    if (properties.length === 0) {
+      continue;
+    }
+    const { path } = getDesignTokenPath(node.nodeId, nodes);
+    const tokenRef = [...path.split("."), "$value"]
+      .map(escapeJsonPointer)
+      .join("/");
+    for (const property of properties) {
+      const targetRef = `#/${tokenRef}/${property.pointer}`;
+      targetsByRef.set(targetRef, {
+        ...property,
+        nodeId: node.nodeId,
+        targetRef,
+        targetTokenPath: path,
+      });
+    }
+  }
+  return Array.from(targetsByRef.values());
+};
+
+/**
+ * Point component of composite token at property of another composite token,
+ * component value is replaced with current value of the property
+ */
+export const setJsonPointerRef = (
+  meta: TokenMeta,
+  componentKey: string,
+  target: JsonPointerTarget,
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+): TokenMeta => {
+  const component = getCompositeProperties(meta).find(
+    (property) => property.key === componentKey,
+  );
+  if (!component) {
+    throw Error(`Component ${componentKey} not found in ${meta.name}`);
+  }
+  if (component.type !== target.type) {
+    throw Error(
+      `${target.targetRef} is expected to have ${component.type} type, received ${target.type}`,
+    );
+  }
+  const targetNode = nodes.get(target.nodeId);
+  if (targetNode?.meta.nodeType !== "token") {
+    throw Error(
+      `Token node not found while resolving nodeId "${target.nodeId}"`,
+    );
+  }
+  const targetValue = resolveTokenValue(targetNode, nodes);
+  const jsonPointerRefs = (meta.jsonPointerRefs ?? []).filter(
+    (ref) => ref.componentKey !== componentKey,
+  );
+  jsonPointerRefs.push({
+    componentKey,
+    targetRef: target.targetRef,
+    targetTokenPath: target.targetTokenPath,
+  });
+  return {
+    ...setComponentValue(
+      meta,
+      componentKey,
+      getComponentValue(targetValue, target.key),
+    ),
+    jsonPointerRefs,
+  };
+};
+
+/**
+ * Remove JSON Pointer refs of components matching the predicate
+ */
+export const removeJsonPointerRefs = (
+  meta: TokenMeta,
+  shouldRemove: (componentKey: string) => boolean,
+): TokenMeta => {
+  const jsonPointerRefs = meta.jsonPointerRefs?.filter(
+    (ref) => !shouldRemove(ref.componentKey),
+  );
+  return {
+    ...meta,
+    jsonPointerRefs: jsonPointerRefs?.length ? jsonPointerRefs : undefined,
+  };
+};
+
+/**
+ * Keep JSON Pointer refs only for components with unchanged value,
+ * edited component no longer follows referenced property
+ */
+export const keepUnchangedJsonPointerRefs = (
+  before: TokenMeta,
+  after: TokenMeta,
+): TokenMeta => {
+  if (!after.jsonPointerRefs) {
+    return after;
+  }
+  return removeJsonPointerRefs(
+    after,
+    (key) =>
+      JSON.stringify(getComponentValue(before, key)) !==
+      JSON.stringify(getComponentValue(after, key)),
+  );
+};
+
+/**
+ * Token which depends on another token
+ */
+export type TokenUsage = {
+  /** The dependent token node ID */
+  nodeId: string;
+  /** Whole token alias, component reference or JSON Pointer reference */
+  kind: "alias" | "component" | "json-pointer";
+  /** The component key for component and JSON Pointer references */
+  componentKey?: string;
+};
+
+/**
+ * Build reverse dependency index: referenced node ID -> tokens using it
+ */
+export const buildUsageIndex = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+): Map<string, TokenUsage[]> => {
+  const index = new Map<string, TokenUsage[]>();
+  const addUsage = (targetId: string, usage: TokenUsage) => {
+    const usages = index.get(targetId) ?? [];
+    usages.push(usage);
+    index.set(targetId, usages);
+  };
+  let findNodeByTargetPath:
+    | ReturnType<typeof createTargetPathLookup>
+    | undefined;
+  for (const node of nodes.values()) {
+    if (node.meta.nodeType !== "token") {
+      continue;
+    }
+    if (isNodeRef(node.meta.value)) {
+      addUsage(node.meta.value.ref, { nodeId: node.nodeId, kind: "alias" });
+    }
+    for (const { key, reference } of getComponentReferences(node, nodes)) {
+      addUsage(reference.nodeId, {
+        nodeId: node.nodeId,
+        kind: "component",
+        componentKey: key,
+      });
+    }
+    for (const ref of node.meta.jsonPointerRefs ?? []) {
+      // build path lookup lazily, most projects have no JSON Pointer refs
+      findNodeByTargetPath ??= createTargetPathLookup(nodes);
+      const targetId = findNodeByTargetPath(ref.targetTokenPath);
+      if (targetId) {
+        addUsage(targetId, {
+          nodeId: node.nodeId,
+          kind: "json-pointer",
+          componentKey: ref.componentKey,
+        });
+      }
+    }
+  }
+  return index;
+};
+
+/**
+ * Find tokens outside of given nodes and their descendants which reference them,
+ * deleting such nodes would break those references
+ */
+export const findExternalUsages = (
+  nodeIds: Iterable<string>,
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  getUsages: (nodeId: string) => TokenUsage[],
+): TokenUsage[] => {
+  const childrenByParent = new Map<string | undefined, string[]>();
+  for (const node of nodes.values()) {
+    const children = childrenByParent.get(node.parentId) ?? [];
+    children.push(node.nodeId);
+    childrenByParent.set(node.parentId, children);
+  }
+  const deletedIds = new Set<string>();
+  const queue = Array.from(nodeIds);
+  while (queue.length > 0) {
+    const nodeId = queue.pop()!;
+    if (!deletedIds.has(nodeId)) {
+      deletedIds.add(nodeId);
+      queue.push(...(childrenByParent.get(nodeId) ?? []));
+    }
+  }
+  const usages: TokenUsage[] = [];
+  for (const nodeId of deletedIds) {
+    for (const usage of getUsages(nodeId)) {
+      if (!deletedIds.has(usage.nodeId)) {
+        usages.push(usage);
+      }
+    }
+  }
+  return usages;
+};
+
 type ResolveContext = {
   nodes: Map<string, TreeNode<TreeNodeMeta>>;
   resolvingStack: Set<string>;
@@ -588,6 +1044,150 @@ export const isAliasCircular = (
   return false; // No circular dependency
 };
 
+const inheritedIdPrefix = "inherited--";
+
+/**
+ * Check if node is a copy of token or group inherited through group $extends
+ */
+export const isInheritedNodeId = (nodeId: string) =>
+  nodeId.startsWith(inheritedIdPrefix);
+
+const isAncestorOrSelf = (
+  ancestorId: string,
+  nodeId: string,
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+) => {
+  let currentId: undefined | string = nodeId;
+  while (currentId !== undefined) {
+    if (currentId === ancestorId) {
+      return true;
+    }
+    currentId = nodes.get(currentId)?.parentId;
+  }
+  return false;
+};
+
+/**
+ * Check if extending a group would create a circular $extends chain
+ * Returns true when the chain starting with target group reaches
+ * the current group or any group containing it
+ */
+export const isGroupExtendsCircular = (
+  currentGroupId: string,
+  targetGroupId: string,
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+): boolean => {
+  const visited = new Set<string>();
+  let currentRef: undefined | string = targetGroupId;
+  while (currentRef && !visited.has(currentRef)) {
+    visited.add(currentRef);
+    const refNode = nodes.get(currentRef);
+    if (refNode?.meta.nodeType !== "token-group") {
+      return false;
+    }
+    if (isAncestorOrSelf(currentRef, currentGroupId, nodes)) {
+      return true;
+    }
+    currentRef = refNode.meta.extends?.ref;
+  }
+  return false;
+};
+
+/**
+ * Add copies of tokens and groups inherited through group $extends
+ *
+ * Own children override inherited ones with the same name
+ * and groups with the same name are merged recursively.
+ * Copies keep meta of extended nodes including references
+ * and are placed after own children of extending group.
+ */
+export const resolveGroupExtends = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+): Map<string, TreeNode<TreeNodeMeta>> => {
+  const hasExtends = Array.from(nodes.values()).some(
+    (node) => node.meta.nodeType === "token-group" && node.meta.extends,
+  );
+  if (!hasExtends) {
+    return nodes;
+  }
+  const result = new Map(nodes);
+  const childrenByParent = new Map<string, TreeNode<TreeNodeMeta>[]>();
+  for (const node of nodes.values()) {
+    if (node.parentId !== undefined) {
+      const children = childrenByParent.get(node.parentId) ?? [];
+      children.push(node);
+      childrenByParent.set(node.parentId, children);
+    }
+  }
+  for (const children of childrenByParent.values()) {
+    children.sort(compareTreeNodes);
+  }
+
+  const expanded = new Set<string>();
+  const expanding = new Set<string>();
+
+  const mergeChildren = (targetId: string, sourceId: string) => {
+    const children = childrenByParent.get(targetId) ?? [];
+    childrenByParent.set(targetId, children);
+    for (const child of childrenByParent.get(sourceId) ?? []) {
+      // nested groups bring their own inherited children
+      expand(child.nodeId);
+      const existing = children.find(
+        (item) => item.meta.name === child.meta.name,
+      );
+      if (existing) {
+        if (
+          existing.meta.nodeType === "token-group" &&
+          child.meta.nodeType === "token-group"
+        ) {
+          mergeChildren(existing.nodeId, child.nodeId);
+        }
+        continue;
+      }
+      const copy: TreeNode<TreeNodeMeta> = {
+        ...child,
+        nodeId: `${inheritedIdPrefix}${targetId}--${child.nodeId}`,
+        parentId: targetId,
+        index: generateKeyBetween(children.at(-1)?.index ?? null, null),
+      };
+      result.set(copy.nodeId, copy);
+      children.push(copy);
+      if (child.meta.nodeType === "token-group") {
+        mergeChildren(copy.nodeId, child.nodeId);
+      }
+    }
+  };
+
+  const expand = (groupId: string) => {
+    const group = result.get(groupId);
+    if (
+      group?.meta.nodeType !== "token-group" ||
+      !group.meta.extends ||
+      expanded.has(groupId) ||
+      expanding.has(groupId)
+    ) {
+      return;
+    }
+    const targetId = group.meta.extends.ref;
+    // missing group or own ancestor cannot be inherited
+    if (
+      result.get(targetId)?.meta.nodeType === "token-group" &&
+      !isAncestorOrSelf(targetId, groupId, result)
+    ) {
+      expanding.add(groupId);
+      expand(targetId);
+      mergeChildren(groupId, targetId);
+      expanding.delete(groupId);
+    }
+    expanded.add(groupId);
+  };
+
+  for (const nodeId of nodes.keys()) {
+    expand(nodeId);
+  }
+  return result;
+};
+
 export type TreeNodeMeta =
   | ResolverMeta
   | GroupMeta
@@ -599,37 +1199,74 @@ export type TreeNodeMeta =
 export class TreeState<Meta> {
   #store = new TreeStore<Meta>();
   #subscribe = createSubscriber((update) => this.#store.subscribe(update));
-  #syncToUrl: boolean = false;
-  #urlUpdateTimer: ReturnType<typeof setTimeout> | null = null;
+  #autosave: undefined | ((nodes: TreeNode<Meta>[]) => void);
+  #autosaveTimer: ReturnType<typeof setTimeout> | null = null;
+  #usageIndex: Map<string, TokenUsage[]> | undefined;
+  #extendedNodes: Map<string, TreeNode<TreeNodeMeta>> | undefined;
+  #inheritedChildren: Map<string, TreeNode<TreeNodeMeta>[]> | undefined;
+
+  constructor() {
+    // reverse dependency index is rebuilt lazily after every change
+    this.#store.subscribe(() => {
+      this.#usageIndex = undefined;
+      this.#extendedNodes = undefined;
+      this.#inheritedChildren = undefined;
+    });
+  }
 
   transact(callback: (tx: Transaction<Meta>) => void): void {
     this.#store.transact(callback);
-    // Sync to URL after transaction completes (debounced)
-    if (this.#syncToUrl) {
-      this.#debouncedUpdateUrl();
+    this.#debouncedAutosave();
+  }
+
+  undo(): void {
+    if (this.#store.undo()) {
+      this.#debouncedAutosave();
+    }
+  }
+
+  redo(): void {
+    if (this.#store.redo()) {
+      this.#debouncedAutosave();
     }
   }
 
-  enableUrlSync(): void {
-    this.#syncToUrl = true;
+  canUndo(): boolean {
+    this.#subscribe();
+    return this.#store.canUndo();
   }
 
-  #debouncedUpdateUrl(): void {
-    // Clear any pending update
-    if (this.#urlUpdateTimer !== null) {
-      clearTimeout(this.#urlUpdateTimer);
+  canRedo(): boolean {
+    this.#subscribe();
+    return this.#store.canRedo();
+  }
+
+  /**
+   * Forget history, for example after loading a project
+   */
+  clearHistory(): void {
+    this.#store.clearHistory();
+  }
+
+  /**
+   * Save all nodes after changes, for example into current project
+   */
+  enableAutosave(save: (nodes: TreeNode<Meta>[]) => void): void {
+    this.#autosave = save;
+  }
+
+  #debouncedAutosave(): void {
+    if (!this.#autosave) {
+      return;
     }
-    // Schedule new update with 500ms debounce
-    this.#urlUpdateTimer = setTimeout(() => {
-      this.#urlUpdateTimer = null;
-      const allNodes = this.#store.nodes() as Map<
-        string,
-        TreeNode<TreeNodeMeta>
-      >;
-      const serialized = serializeTokenResolver(allNodes);
-      setDataInUrl(serialized).catch((error) => {
-        console.error("Failed to sync design tokens to URL:", error);
-      });
+    // Clear any pending save
+    if (this.#autosaveTimer !== null) {
+      clearTimeout(this.#autosaveTimer);
+    }
+    // Schedule new save with 500ms debounce
+    this.#autosaveTimer = setTimeout(() => {
+      this.#autosaveTimer = null;
+      this.#autosave?.(this.#store.values());
     }, 500);
   }
 
@@ -653,6 +1290,47 @@ export class TreeState<Meta> {
     return this.#store.getChildren(nodeId);
   }
 
+  /**
+   * Get tokens referencing the node with alias, component or JSON Pointer
+   */
+  getUsages(nodeId: string): TokenUsage[] {
+    this.#subscribe();
+    this.#usageIndex ??= buildUsageIndex(
+      this.#store.nodes() as Map<string, TreeNode<TreeNodeMeta>>,
+    );
+    return this.#usageIndex.get(nodeId) ?? [];
+  }
+
+  /**
+   * Get nodes with copies of tokens and groups inherited through group $extends
+   */
+  extendedNodes(): Map<string, TreeNode<TreeNodeMeta>> {
+    this.#subscribe();
+    this.#extendedNodes ??= resolveGroupExtends(
+      this.#store.nodes() as Map<string, TreeNode<TreeNodeMeta>>,
+    );
+    return this.#extendedNodes;
+  }
+
+  /**
+   * Get read-only copies of tokens and groups inherited by the group,
+   * own children are not included
+   */
+  getInheritedChildren(nodeId: string): TreeNode<TreeNodeMeta>[] {
+    if (!this.#inheritedChildren) {
+      this.#inheritedChildren = new Map();
+      for (const node of this.extendedNodes().values()) {
+        if (isInheritedNodeId(node.nodeId) && node.parentId !== undefined) {
+          const children = this.#inheritedChildren.get(node.parentId) ?? [];
+          children.push(node);
+          this.#inheritedChildren.set(node.parentId, children);
+        }
+      }
+    }
+    this.#subscribe();
+    return this.#inheritedChildren.get(nodeId) ?? [];
+  }
+
   getParent(nodeId: string): TreeNode<Meta> | undefined {
     this.#subscribe();
     return this.#store.getParent(nodeId);
@@ -670,3 +1348,42 @@ export class TreeState<Meta> {
 }
 
 export const treeState = new TreeState<TreeNodeMeta>();
+
+/**
+ * Where generated group is inserted: at the end of selected set, group
+ * or context, right after selected token or at the end of root
+ */
+export const getGroupInsertPosition = (
+  selectedNodeId: undefined | string,
+): undefined | { parentId: undefined | string; index: string } => {
+  const selectedNode = selectedNodeId
+    ? treeState.getNode(selectedNodeId)
+    : undefined;
+  if (!selectedNode) {
+    const lastRootIndex = treeState.getChildren(undefined).at(-1)?.index;
+    return {
+      parentId: undefined,
+      index: generateKeyBetween(lastRootIndex ?? null, null),
+    };
+  }
+  if (
+    selectedNode.meta.nodeType === "token-set" ||
+    selectedNode.meta.nodeType === "token-group" ||
+    selectedNode.meta.nodeType === "modifier-context"
+  ) {
+    const lastChildIndex = treeState
+      .getChildren(selectedNode.nodeId)
+      .at(-1)?.index;
+    return {
+      parentId: selectedNode.nodeId,
+      index: generateKeyBetween(lastChildIndex ?? null, null),
+    };
+  }
+  if (selectedNode.meta.nodeType === "token") {
+    const nextSibling = treeState.getNextSibling(selectedNode.nodeId);
+    return {
+      parentId: selectedNode.parentId,
+      index: generateKeyBetween(selectedNode.index, nextSibling?.index ?? null),
+    };
+  }
+};
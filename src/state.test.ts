@@ -4,11 +4,22 @@ import {
   resolveTokenValue,
   resolveRawValue,
   isAliasCircular,
+  mapNodeRefs,
+  buildUsageIndex,
+  findExternalUsages,
+  isGroupExtendsCircular,
+  isInheritedNodeId,
+  resolveGroupExtends,
+  getCompositeProperties,
+  getJsonPointerTargets,
+  setJsonPointerRef,
+  keepUnchangedJsonPointerRefs,
   type TokenMeta,
   type TreeNodeMeta,
 } from "./state.svelte";
 import type { TreeNode } from "./store";
 import type { RawValue } from "./schema";
+import { parseTokenResolver, serializeTokenResolver } from "./resolver";
 
 const meta = undefined;
 
@@ -2091,3 +2102,506 @@ describe("resolveRawValue", () => {
     );
   });
 });
+
+describe("mapNodeRefs", () => {
+  const rename = (nodeRef: { ref: string }) => ({ ref: `${nodeRef.ref}-2` });
+
+  test("maps whole token alias", () => {
+    const meta: TokenMeta = {
+      nodeType: "token",
+      name: "alias",
+      type: "color",
+      value: { ref: "color" },
+    };
+    expect(mapNodeRefs(meta, rename).value).toEqual({ ref: "color-2" });
+  });
+
+  test("maps component references of composite token", () => {
+    const meta: TokenMeta = {
+      nodeType: "token",
+      name: "shadow",
+      type: "shadow",
+      value: [
+        {
+          color: { ref: "color" },
+          offsetX: { value: 0, unit: "px" },
+          offsetY: { ref: "offset" },
+          blur: { value: 4, unit: "px" },
+          spread: { value: 0, unit: "px" },
+          inset: true,
+        },
+      ],
+    };
+    expect(mapNodeRefs(meta, rename).value).toEqual([
+      {
+        color: { ref: "color-2" },
+        offsetX: { value: 0, unit: "px" },
+        offsetY: { ref: "offset-2" },
+        blur: { value: 4, unit: "px" },
+        spread: { value: 0, unit: "px" },
+        inset: true,
+      },
+    ]);
+  });
+
+  test("keeps primitive values unchanged", () => {
+    const meta: TokenMeta = {
+      nodeType: "token",
+      name: "size",
+      type: "dimension",
+      value: { value: 4, unit: "px" },
+    };
+    expect(mapNodeRefs(meta, rename)).toBe(meta);
+  });
+});
+
+describe("buildUsageIndex", () => {
+  const nodes = new Map<string, TreeNode<TreeNodeMeta>>([
+    [
+      "colors",
+      {
+        nodeId: "colors",
+        parentId: undefined,
+        index: "a0",
+        meta: { nodeType: "token-group", name: "colors" },
+      },
+    ],
+    [
+      "red",
+      {
+        nodeId: "red",
+        parentId: "colors",
+        index: "a0",
+        meta: {
+          nodeType: "token",
+          name: "red",
+          type: "color",
+          value: { colorSpace: "srgb", components: [1, 0, 0] },
+        },
+      },
+    ],
+    [
+      "accent",
+      {
+        nodeId: "accent",
+        parentId: "colors",
+        index: "a1",
+        meta: {
+          nodeType: "token",
+          name: "accent",
+          type: "color",
+          value: { ref: "red" },
+        },
+      },
+    ],
+    [
+      "outline",
+      {
+        nodeId: "outline",
+        parentId: undefined,
+        index: "a1",
+        meta: {
+          nodeType: "token",
+          name: "outline",
+          type: "border",
+          value: {
+            color: { ref: "red" },
+            width: { value: 1, unit: "px" },
+            style: "solid",
+          },
+        },
+      },
+    ],
+  ]);
+
+  test("indexes whole aliases and component references", () => {
+    const index = buildUsageIndex(nodes);
+    expect(index.get("red")).toEqual([
+      { nodeId: "accent", kind: "alias" },
+      { nodeId: "outline", kind: "component", componentKey: "color" },
+    ]);
+    expect(index.get("accent")).toBeUndefined();
+  });
+
+  test("ignores usages from within deleted subtree", () => {
+    const index = buildUsageIndex(nodes);
+    const getUsages = (nodeId: string) => index.get(nodeId) ?? [];
+    expect(findExternalUsages(["colors"], nodes, getUsages)).toEqual([
+      { nodeId: "outline", kind: "component", componentKey: "color" },
+    ]);
+    expect(findExternalUsages(["accent"], nodes, getUsages)).toEqual([]);
+    expect(findExternalUsages(["red"], nodes, getUsages)).toHaveLength(2);
+  });
+
+  test("invalidates TreeState usages after changes", () => {
+    const state = new TreeState<TreeNodeMeta>();
+    state.transact((tx) => {
+      for (const node of nodes.values()) {
+        tx.set(node);
+      }
+    });
+    expect(state.getUsages("red")).toHaveLength(2);
+    state.transact((tx) => {
+      tx.delete("accent");
+    });
+    expect(state.getUsages("red")).toEqual([
+      { nodeId: "outline", kind: "component", componentKey: "color" },
+    ]);
+  });
+});
+
+describe("JSON Pointer property references", () => {
+  const black = { colorSpace: "srgb" as const, components: [0, 0, 0] };
+  const shadowItem = (offsetY: number) => ({
+    color: black,
+    offsetX: { value: 0, unit: "px" as const },
+    offsetY: { value: offsetY, unit: "px" as const },
+    blur: { value: 4, unit: "px" as const },
+    spread: { value: 0, unit: "px" as const },
+  });
+  const token = (
+    nodeId: string,
+    parentId: undefined | string,
+    meta: Omit<TokenMeta, "nodeType" | "name">,
+  ): [string, TreeNode<TreeNodeMeta>] => [
+    nodeId,
+    {
+      nodeId,
+      parentId,
+      index: `a${nodeId.length}`,
+      meta: { nodeType: "token", name: nodeId, ...meta } as TokenMeta,
+    },
+  ];
+  const nodes = new Map<string, TreeNode<TreeNodeMeta>>([
+    [
+      "shadow",
+      {
+        nodeId: "shadow",
+        parentId: undefined,
+        index: "a0",
+        meta: { nodeType: "token-group", name: "shadow" },
+      },
+    ],
+    token("base", "shadow", {
+      type: "shadow",
+      value: [shadowItem(1), shadowItem(8)],
+    }),
+    token("raised", "shadow", { type: "shadow", value: [shadowItem(2)] }),
+    token("outline", undefined, {
+      type: "border",
+      value: { color: black, width: { value: 1, unit: "px" }, style: "solid" },
+    }),
+    token("alias", undefined, { type: "border", value: { ref: "outline" } }),
+  ]);
+  const getMeta = (nodeId: string) => nodes.get(nodeId)?.meta as TokenMeta;
+
+  test("lists components of composite tokens", () => {
+    expect(getCompositeProperties(getMeta("raised"))).toContainEqual({
+      key: "offsetY",
+      pointer: "offsetY",
+      type: "dimension",
+    });
+    expect(getCompositeProperties(getMeta("base"))).toContainEqual({
+      key: "[1].offsetY",
+      pointer: "1/offsetY",
+      type: "dimension",
+    });
+    expect(getCompositeProperties(getMeta("alias"))).toEqual([]);
+  });
+
+  test("lists properties of other tokens as $ref targets", () => {
+    const targets = getJsonPointerTargets(nodes, "raised");
+    expect(targets.some((target) => target.nodeId === "raised")).toBe(false);
+    expect(targets).toContainEqual({
+      key: "[1].offsetY",
+      pointer: "1/offsetY",
+      type: "dimension",
+      nodeId: "base",
+      targetRef: "#/shadow/base/$value/1/offsetY",
+      targetTokenPath: "shadow.base",
+    });
+    expect(targets).toContainEqual(
+      expect.objectContaining({
+        nodeId: "outline",
+        targetRef: "#/outline/$value/width",
+      }),
+    );
+  });
+
+  test("points component at property with the same type", () => {
+    const targets = getJsonPointerTargets(nodes, "raised");
+    const offsetY = targets.find(
+      (target) => target.targetRef === "#/shadow/base/$value/1/offsetY",
+    )!;
+    const meta = setJsonPointerRef(
+      getMeta("raised"),
+      "offsetY",
+      offsetY,
+      nodes,
+    );
+    expect(meta.value).toEqual([
+      { ...shadowItem(2), offsetY: { value: 8, unit: "px" } },
+    ]);
+    expect(meta.jsonPointerRefs).toEqual([
+      {
+        componentKey: "offsetY",
+        targetRef: "#/shadow/base/$value/1/offsetY",
+        targetTokenPath: "shadow.base",
+      },
+    ]);
+
+    const color = targets.find(
+      (target) => target.targetRef === "#/outline/$value/color",
+    )!;
+    expect(() =>
+      setJsonPointerRef(getMeta("raised"), "offsetY", color, nodes),
+    ).toThrow(
+      "#/outline/$value/color is expected to have dimension type, received color",
+    );
+  });
+
+  test("drops refs of edited components", () => {
+    const targets = getJsonPointerTargets(nodes, "raised");
+    const blur = targets.find(
+      (target) => target.targetRef === "#/shadow/base/$value/0/blur",
+    )!;
+    const before = setJsonPointerRef(getMeta("raised"), "blur", blur, nodes);
+    expect(
+      keepUnchangedJsonPointerRefs(before, {
+        ...before,
+        value: [{ ...shadowItem(4) }],
+      } as TokenMeta).jsonPointerRefs,
+    ).toHaveLength(1);
+    expect(
+      keepUnchangedJsonPointerRefs(before, {
+        ...before,
+        value: [{ ...shadowItem(2), blur: { value: 10, unit: "px" } }],
+      } as TokenMeta).jsonPointerRefs,
+    ).toBeUndefined();
+  });
+
+  describe("in resolver", () => {
+    const typography = (fontFamily: string) => ({
+      $type: "typography",
+      $value: {
+        fontFamily,
+        fontSize: { value: 16, unit: "px" },
+        fontWeight: 400,
+        letterSpacing: { value: 0, unit: "px" },
+        lineHeight: 1.5,
+      },
+    });
+    const parseThemes = async () => {
+      const result = await parseTokenResolver({
+        version: "2025.10",
+        resolutionOrder: [
+          {
+            type: "set",
+            name: "base",
+            sources: [{ body: typography("Inter") }],
+          },
+          {
+            type: "set",
+            name: "brand",
+            sources: [{ lead: typography("Lora") }],
+          },
+          {
+            type: "modifier",
+            name: "theme",
+            default: "light",
+            contexts: {
+              light: [{ heading: typography("Lora") }],
+              dark: [
+                {
+                  heading: typography("Inter"),
+                  caption: typography("Inter"),
+                },
+              ],
+            },
+          },
+        ],
+      });
+      expect(result.errors).toEqual([]);
+      return new Map(result.nodes.map((node) => [node.nodeId, node]));
+    };
+    const findTokenId = (
+      nodes: Map<string, TreeNode<TreeNodeMeta>>,
+      name: string,
+    ) =>
+      Array.from(nodes.values()).find((node) => node.meta.name === name)!
+        .nodeId;
+    const getTargetPaths = (
+      nodes: Map<string, TreeNode<TreeNodeMeta>>,
+      name: string,
+    ) =>
+      getJsonPointerTargets(nodes, findTokenId(nodes, name))
+        .filter((target) => target.key === "fontFamily")
+        .map((target) => target.targetTokenPath);
+
+    test("offers tokens of the same and earlier sets to set tokens", async () => {
+      const nodes = await parseThemes();
+      expect(getTargetPaths(nodes, "body")).toEqual([]);
+      expect(getTargetPaths(nodes, "lead")).toEqual(["body"]);
+    });
+
+    test("offers set tokens and own context tokens once per path", async () => {
+      const nodes = await parseThemes();
+      expect(getTargetPaths(nodes, "caption")).toEqual([
+        "body",
+        "lead",
+        "heading",
+      ]);
+      const heading = getJsonPointerTargets(
+        nodes,
+        findTokenId(nodes, "caption"),
+      ).find((target) => target.targetTokenPath === "heading")!;
+      expect(nodes.get(heading.nodeId)?.parentId).toBe(
+        nodes.get(findTokenId(nodes, "caption"))?.parentId,
+      );
+    });
+
+    test("round trips refs to properties of offered targets", async () => {
+      const nodes = await parseThemes();
+      const captionId = findTokenId(nodes, "caption");
+      const caption = nodes.get(captionId)!;
+      let meta = caption.meta as TokenMeta;
+      for (const target of getJsonPointerTargets(nodes, captionId)) {
+        if (target.key === "fontFamily" && target.targetTokenPath === "lead") {
+          meta = setJsonPointerRef(meta, "fontFamily", target, nodes);
+        }
+        if (
+          target.key === "lineHeight" &&
+          target.targetTokenPath === "heading"
+        ) {
+          meta = setJsonPointerRef(meta, "lineHeight", target, nodes);
+        }
+      }
+      nodes.set(captionId, { ...caption, meta });
+      const result = await parseTokenResolver(serializeTokenResolver(nodes));
+      expect(result.errors).toEqual([]);
+      const imported = result.nodes.find(
+        (node) => node.meta.name === "caption",
+      );
+      expect(imported?.meta).toMatchObject({
+        value: { fontFamily: "Lora" },
+        jsonPointerRefs: [
+          {
+            componentKey: "fontFamily",
+            targetRef: "#/lead/$value/fontFamily",
+          },
+          {
+            componentKey: "lineHeight",
+            targetRef: "#/heading/$value/lineHeight",
+          },
+        ],
+      });
+    });
+  });
+});
+
+describe("group extends", () => {
+  // longer ids are ordered after shorter ones among siblings
+  const group = (
+    nodeId: string,
+    parentId: undefined | string,
+    name: string,
+    extendsId?: string,
+  ): TreeNode<TreeNodeMeta> => ({
+    nodeId,
+    parentId,
+    index: `a${nodeId.length}`,
+    meta: {
+      nodeType: "token-group",
+      name,
+      extends: extendsId ? { ref: extendsId } : undefined,
+    },
+  });
+  const token = (
+    nodeId: string,
+    parentId: string,
+    name: string,
+    value: number,
+  ): TreeNode<TreeNodeMeta> => ({
+    nodeId,
+    parentId,
+    index: `a${nodeId.length}`,
+    meta: { nodeType: "token", name, type: "number", value },
+  });
+  const createNodesMap = (nodes: TreeNode<TreeNodeMeta>[]) =>
+    new Map(nodes.map((node) => [node.nodeId, node]));
+
+  test("detects circular extends chains and extending own ancestor", () => {
+    const nodes = createNodesMap([
+      group("button", undefined, "button"),
+      group("primary", "button", "primary", "secondary"),
+      group("secondary", "button", "secondary"),
+      group("tertiary", undefined, "tertiary", "primary"),
+    ]);
+    expect(isGroupExtendsCircular("secondary", "primary", nodes)).toBe(true);
+    expect(isGroupExtendsCircular("primary", "primary", nodes)).toBe(true);
+    expect(isGroupExtendsCircular("primary", "button", nodes)).toBe(true);
+    expect(isGroupExtendsCircular("secondary", "tertiary", nodes)).toBe(true);
+    expect(isGroupExtendsCircular("tertiary", "secondary", nodes)).toBe(false);
+    expect(isGroupExtendsCircular("secondary", "missing", nodes)).toBe(false);
+  });
+
+  test("inherits children of extended group and keeps overrides", () => {
+    const nodes = createNodesMap([
+      group("base", undefined, "base"),
+      token("b1", "base", "padding", 8),
+      token("b22", "base", "radius", 4),
+      group("b333", "base", "states"),
+      token("h", "b333", "hover", 1),
+      group("large", undefined, "large", "base"),
+      token("l1", "large", "padding", 16),
+      group("l22", "large", "states"),
+      token("a", "l22", "active", 2),
+    ]);
+    const resolved = resolveGroupExtends(nodes);
+    const getChildren = (parentId: string) =>
+      Array.from(resolved.values())
+        .filter((node) => node.parentId === parentId)
+        .sort((a, b) => (a.index < b.index ? -1 : 1))
+        .map((node) => [node.meta.name, isInheritedNodeId(node.nodeId)]);
+    expect(getChildren("large")).toEqual([
+      ["padding", false],
+      ["states", false],
+      ["radius", true],
+    ]);
+    expect(getChildren("l22")).toEqual([
+      ["active", false],
+      ["hover", true],
+    ]);
+    // extended group and own nodes are untouched
+    expect(getChildren("base")).toEqual([
+      ["padding", false],
+      ["radius", false],
+      ["states", false],
+    ]);
+    expect(resolved.get("l1")).toBe(nodes.get("l1"));
+    const radius = Array.from(resolved.values()).find(
+      (node) => node.parentId === "large" && node.meta.name === "radius",
+    );
+    expect(radius?.meta).toEqual(nodes.get("b22")?.meta);
+  });
+
+  test("returns same nodes without extends and survives cycles", () => {
+    const nodes = createNodesMap([
+      group("a", undefined, "a", "b"),
+      token("x", "a", "x", 1),
+      group("b", undefined, "b", "a"),
+      token("y", "b", "y", 2),
+    ]);
+    const resolved = resolveGroupExtends(nodes);
+    const names = (parentId: string) =>
+      Array.from(resolved.values())
+        .filter((node) => node.parentId === parentId)
+        .map((node) => node.meta.name)
+        .sort();
+    expect(names("a")).toEqual(["x", "y"]);
+    expect(names("b")).toEqual(["x", "y"]);
+
+    const plain = createNodesMap([group("a", undefined, "a")]);
+    expect(resolveGroupExtends(plain)).toBe(plain);
+  });
+});
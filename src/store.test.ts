@@ -264,3 +264,102 @@ test("getNextSibling should return undefined for non-existent nodes", () => {
   const nextSibling = store.getNextSibling("non-existent");
   expect(nextSibling).toBeUndefined();
 });
+
+test("undo should revert the last transaction", () => {
+  const store = new TreeStore();
+  store.transact((tx) => {
+    tx.set({ nodeId: "node1", parentId: undefined, index: "a0", meta });
+  });
+  store.transact((tx) => {
+    tx.set({ nodeId: "node1", parentId: undefined, index: "b0", meta });
+    tx.set({ nodeId: "node2", parentId: "node1", index: "a0", meta });
+  });
+  expect(store.undo()).toBe(true);
+  expect(store.values()).toHaveLength(1);
+  expect(store.nodes().get("node1")?.index).toBe("a0");
+  expect(store.getChildren("node1")).toHaveLength(0);
+});
+
+test("undo should restore deleted and cleared nodes", () => {
+  const store = new TreeStore();
+  store.transact((tx) => {
+    tx.set({ nodeId: "root", parentId: undefined, index: "a0", meta });
+    tx.set({ nodeId: "child", parentId: "root", index: "a0", meta });
+  });
+  store.transact((tx) => {
+    tx.delete("child");
+  });
+  store.undo();
+  expect(store.getChildren("root").map((n) => n.nodeId)).toEqual(["child"]);
+  store.transact((tx) => {
+    tx.clear();
+    tx.set({ nodeId: "other", parentId: undefined, index: "a0", meta });
+  });
+  store.undo();
+  expect(store.getChildren(undefined).map((n) => n.nodeId)).toEqual(["root"]);
+  expect(store.getChildren("root").map((n) => n.nodeId)).toEqual(["child"]);
+});
+
+test("redo should apply undone transaction again", () => {
+  const store = new TreeStore();
+  store.transact((tx) => {
+    tx.set({ nodeId: "node1", parentId: undefined, index: "a0", meta });
+  });
+  store.undo();
+  expect(store.values()).toHaveLength(0);
+  expect(store.canRedo()).toBe(true);
+  expect(store.redo()).toBe(true);
+  expect(store.values()).toHaveLength(1);
+  expect(store.canRedo()).toBe(false);
+});
+
+test("new transaction should drop redo history", () => {
+  const store = new TreeStore();
+  store.transact((tx) => {
+    tx.set({ nodeId: "node1", parentId: undefined, index: "a0", meta });
+  });
+  store.undo();
+  store.transact((tx) => {
+    tx.set({ nodeId: "node2", parentId: undefined, index: "a0", meta });
+  });
+  expect(store.canRedo()).toBe(false);
+  expect(store.redo()).toBe(false);
+});
+
+test("history should be bounded", () => {
+  const store = new TreeStore({ historyLimit: 2 });
+  for (const nodeId of ["node1", "node2", "node3"]) {
+    store.transact((tx) => {
+      tx.set({ nodeId, parentId: undefined, index: "a0", meta });
+    });
+  }
+  expect(store.undo()).toBe(true);
+  expect(store.undo()).toBe(true);
+  expect(store.undo()).toBe(false);
+  expect(store.values().map((n) => n.nodeId)).toEqual(["node1"]);
+});
+
+test("undo and redo should notify subscribers", () => {
+  const store = new TreeStore();
+  let notifyCount = 0;
+  store.subscribe(() => {
+    notifyCount++;
+  });
+  store.transact((tx) => {
+    tx.set({ nodeId: "node1", parentId: undefined, index: "a0", meta });
+  });
+  store.undo();
+  store.redo();
+  expect(notifyCount).toBe(3);
+});
+
+test("clearHistory should forget undo and redo stacks", () => {
+  const store = new TreeStore();
+  store.transact((tx) => {
+    tx.set({ nodeId: "node1", parentId: undefined, index: "a0", meta });
+  });
+  store.clearHistory();
+  expect(store.canUndo()).toBe(false);
+  expect(store.undo()).toBe(false);
+  expect(store.values()).toHaveLength(1);
+});
@@ -24,51 +24,144 @@ export const compareTreeNodes = <Meta>(
   return 0;
 };
 
+// single node change recorded in history, undefined means absent node
+type NodeChange<Meta> = {
+  nodeId: string;
+  before: TreeNode<Meta> | undefined;
+  after: TreeNode<Meta> | undefined;
+};
+
 export class TreeStore<Meta> {
   #nodes = new Map<string, TreeNode<Meta>>();
   #childrenByParent = new Map<string | undefined, Set<string>>();
   #childrenCache = new Map<string | undefined, TreeNode<Meta>[]>();
   #subscribers = new Set<() => void>();
+  #undoStack: NodeChange<Meta>[][] = [];
+  #redoStack: NodeChange<Meta>[][] = [];
+  #historyLimit: number;
+
+  constructor({ historyLimit = 100 }: { historyLimit?: number } = {}) {
+    this.#historyLimit = historyLimit;
+  }
+
+  #set(node: TreeNode<Meta>): void {
+    const existing = this.#nodes.get(node.nodeId);
+    // Update children index if parent changed or node is new
+    if (existing && existing.parentId !== node.parentId) {
+      // Remove from old parent's children
+      this.#childrenByParent.get(existing.parentId)?.delete(node.nodeId);
+      this.#childrenCache.delete(existing.parentId);
+    }
+    // Add to new parent's children
+    let parentChildren = this.#childrenByParent.get(node.parentId);
+    if (!parentChildren) {
+      parentChildren = new Set();
+      this.#childrenByParent.set(node.parentId, parentChildren);
+    }
+    parentChildren.add(node.nodeId);
+    // Invalidate cache for affected parent
+    this.#childrenCache.delete(node.parentId);
+    this.#nodes.set(node.nodeId, node);
+  }
+
+  #delete(nodeId: string): void {
+    const node = this.#nodes.get(nodeId);
+    if (node) {
+      // Remove from parent's children index
+      this.#childrenByParent.get(node.parentId)?.delete(nodeId);
+      this.#childrenCache.delete(node.parentId);
+    }
+    this.#nodes.delete(nodeId);
+  }
 
   transact(callback: (tx: Transaction<Meta>) => void): void {
+    // record inverse of every operation to undo the whole transaction
+    const changes: NodeChange<Meta>[] = [];
     callback({
       set: (node) => {
-        const existing = this.#nodes.get(node.nodeId);
-        // Update children index if parent changed or node is new
-        if (existing && existing.parentId !== node.parentId) {
-          // Remove from old parent's children
-          this.#childrenByParent.get(existing.parentId)?.delete(node.nodeId);
-          this.#childrenCache.delete(existing.parentId);
-        }
-        // Add to new parent's children
-        let parentChildren = this.#childrenByParent.get(node.parentId);
-        if (!parentChildren) {
-          parentChildren = new Set();
-          this.#childrenByParent.set(node.parentId, parentChildren);
-        }
-        parentChildren.add(node.nodeId);
-        // Invalidate cache for affected parent
-        this.#childrenCache.delete(node.parentId);
-        this.#nodes.set(node.nodeId, node);
+        const before = this.#nodes.get(node.nodeId);
+        changes.push({ nodeId: node.nodeId, before, after: node });
+        this.#set(node);
       },
       delete: (nodeId): void => {
-        const node = this.#nodes.get(nodeId);
-        if (node) {
-          // Remove from parent's children index
-          this.#childrenByParent.get(node.parentId)?.delete(nodeId);
-          this.#childrenCache.delete(node.parentId);
+        const before = this.#nodes.get(nodeId);
+        if (before) {
+          changes.push({ nodeId, before, after: undefined });
         }
-        this.#nodes.delete(nodeId);
+        this.#delete(nodeId);
       },
       clear: (): void => {
+        for (const node of this.#nodes.values()) {
+          changes.push({ nodeId: node.nodeId, before: node, after: undefined });
+        }
         this.#nodes.clear();
         this.#childrenByParent.clear();
         this.#childrenCache.clear();
       },
     });
+    if (changes.length > 0) {
+      this.#undoStack.push(changes);
+      if (this.#undoStack.length > this.#historyLimit) {
+        this.#undoStack.shift();
+      }
+      this.#redoStack = [];
+    }
     this.#notify();
   }
 
+  /**
+   * Revert the last transaction, returns false when history is empty
+   */
+  undo(): boolean {
+    const changes = this.#undoStack.pop();
+    if (!changes) {
+      return false;
+    }
+    for (const change of changes.toReversed()) {
+      if (change.before) {
+        this.#set(change.before);
+      } else {
+        this.#delete(change.nodeId);
+      }
+    }
+    this.#redoStack.push(changes);
+    this.#notify();
+    return true;
+  }
+
+  /**
+   * Apply the last undone transaction again, returns false when nothing to redo
+   */
+  redo(): boolean {
+    const changes = this.#redoStack.pop();
+    if (!changes) {
+      return false;
+    }
+    for (const change of changes) {
+      if (change.after) {
+        this.#set(change.after);
+      } else {
+        this.#delete(change.nodeId);
+      }
+    }
+    this.#undoStack.push(changes);
+    this.#notify();
+    return true;
+  }
+
+  canUndo(): boolean {
+    return this.#undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.#redoStack.length > 0;
+  }
+
+  clearHistory(): void {
+    this.#undoStack = [];
+    this.#redoStack = [];
+  }
+
   values(): TreeNode<Meta>[] {
     return Array.from(this.#nodes.values());
   }
@@ -0,0 +1,149 @@
+// Zod schema for Style Dictionary token format without $ prefixes
+// https://styledictionary.com/info/tokens/
+// Output is normalized to DTCG token and validated by backward compatible schema
+
+import { z } from "zod";
+import { parseCssValue } from "./css-variables";
+import { tokenSchema, type TokenType } from "./dtcg.schema";
+import { backwardCompatibleTokenSchema } from "./legacy.schema";
+
+/** keeps CTI attributes like { category, type, item } of imported tokens */
+export const styleDictionaryExtensionKey = "com.amazon.style-dictionary";
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Token with "value" instead of "$value",
+ * group with child named "value" holds objects instead
+ */
+export const isStyleDictionaryToken = (
+  value: unknown,
+): value is Record<string, unknown> => {
+  return (
+    isObject(value) &&
+    "value" in value &&
+    !("$value" in value) &&
+    !(isObject(value.value) && Object.values(value.value).some(isObject))
+  );
+};
+
+const hasLegacyReference = (value: unknown): boolean => {
+  if (typeof value === "string") {
+    return /\{[^{}]+\.value\}/.test(value);
+  }
+  if (isObject(value) || Array.isArray(value)) {
+    return Object.values(value).some(hasLegacyReference);
+  }
+  return false;
+};
+
+/**
+ * Detects tokens with style dictionary specific fields,
+ * "value" and "type" alone are shared with tokens studio
+ */
+export const isStyleDictionaryFormat = (input: unknown): boolean => {
+  if (!isObject(input)) {
+    return false;
+  }
+  if (isStyleDictionaryToken(input)) {
+    return (
+      "comment" in input ||
+      isObject(input.attributes) ||
+      hasLegacyReference(input.value)
+    );
+  }
+  return Object.values(input).some(isStyleDictionaryFormat);
+};
+
+// CTI categories and style dictionary types which are not DTCG types
+const typeByCategory: Record<string, TokenType> = {
+  color: "color",
+  size: "dimension",
+  time: "duration",
+};
+
+const getTokenType = (value: unknown): undefined | TokenType => {
+  if (typeof value !== "string") {
+    return;
+  }
+  const result = tokenSchema.shape.$type.safeParse(value);
+  return result.success ? result.data : typeByCategory[value];
+};
+
+// {color.base.red.value} -> {color.base.red}
+const normalizeReferences = (value: unknown): unknown => {
+  if (typeof value === "string") {
+    return value.replace(/\{([^{}]+?)\.value\}/g, "{$1}");
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalizeReferences);
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        normalizeReferences(item),
+      ]),
+    );
+  }
+  return value;
+};
+
+export const styleDictionaryTokenSchema = z
+  .object({
+    value: z.unknown(),
+    type: z.string().optional(),
+    comment: z.string().optional(),
+    description: z.string().optional(),
+    attributes: z.record(z.string(), z.unknown()).optional(),
+  })
+  .transform((token, ctx) => {
+    let type =
+      getTokenType(token.type) ?? getTokenType(token.attributes?.category);
+    let value = normalizeReferences(token.value);
+    const isReference =
+      typeof value === "string" && /^\{[^{}]+\}$/.test(value.trim());
+    if (typeof value === "string" && !isReference) {
+      if (value.includes("{")) {
+        ctx.issues.push({
+          code: "custom",
+          message: `References inside values are not supported: ${value}`,
+          input: token.value,
+        });
+        return z.NEVER;
+      }
+      const parsed = parseCssValue(value.trim());
+      // unitless sizes are pixels
+      if (type === "dimension" && parsed?.$type === "number") {
+        value = { value: parsed.$value, unit: "px" };
+      } else if (parsed && (!type || type === parsed.$type)) {
+        type = parsed.$type;
+        value = parsed.$value;
+      }
+    }
+    if (typeof value === "number") {
+      value = type === "dimension" ? { value, unit: "px" } : value;
+      type = type ?? "number";
+    }
+    const description = token.comment ?? token.description;
+    return {
+      $value: value,
+      ...(type && { $type: type }),
+      ...(description && { $description: description }),
+      ...(token.attributes && {
+        $extensions: {
+          [styleDictionaryExtensionKey]: { attributes: token.attributes },
+        },
+      }),
+    };
+  });
+
+/** converts style dictionary token and validates result as DTCG token */
+export const parseStyleDictionaryToken = (data: unknown) => {
+  const converted = styleDictionaryTokenSchema.safeParse(data);
+  if (!converted.success) {
+    return converted;
+  }
+  return backwardCompatibleTokenSchema.safeParse(converted.data);
+};
@@ -0,0 +1,155 @@
+import { test, expect, describe } from "vitest";
+import { generateSwift } from "./swift";
+import { parseDesignTokens } from "./tokens";
+import { parseTokenResolver } from "./resolver";
+import type { TreeNode } from "./store";
+import type { TreeNodeMeta } from "./state.svelte";
+
+const nodesToMap = (nodes: TreeNode<TreeNodeMeta>[]) => {
+  const map = new Map<string, TreeNode<TreeNodeMeta>>();
+  for (const node of nodes) {
+    map.set(node.nodeId, node);
+  }
+  return map;
+};
+
+describe("generateSwift", () => {
+  test("generates only import for empty nodes", () => {
+    expect(generateSwift(new Map())).toBe("import SwiftUI");
+  });
+
+  test("generates color, dimension, font and animation extensions", () => {
+    const parsed = parseDesignTokens({
+      color: {
+        $type: "color",
+        red: {
+          500: { $value: { colorSpace: "srgb", components: [1, 0, 0] } },
+        },
+        primary: { $value: "{color.red.500}" },
+      },
+      space: {
+        $type: "dimension",
+        md: { $value: { value: 1.5, unit: "rem" } },
+        sm: { $value: { value: 4, unit: "px" } },
+      },
+      typography: {
+        body: {
+          $type: "typography",
+          $value: {
+            fontFamily: ["Inter", "sans-serif"],
+            fontSize: { value: 1, unit: "rem" },
+            fontWeight: "semi-bold",
+            letterSpacing: { value: 0, unit: "px" },
+            lineHeight: 1.5,
+          },
+        },
+      },
+      motion: {
+        fade: {
+          $type: "transition",
+          $value: {
+            duration: { value: 200, unit: "ms" },
+            delay: { value: 0, unit: "ms" },
+            timingFunction: [0.4, 0, 0.2, 1],
+          },
+        },
+      },
+    });
+    expect(generateSwift(nodesToMap(parsed.nodes))).toBe(
+      [
+        "import SwiftUI",
+        "",
+        "extension Color {",
+        "    static let colorRed500 = Color(.sRGB, red: 1, green: 0, blue: 0, opacity: 1)",
+        "    static let colorPrimary = Color(.sRGB, red: 1, green: 0, blue: 0, opacity: 1)",
+        "}",
+        "",
+        "extension CGFloat {",
+        "    static let spaceMd: CGFloat = 24",
+        "    static let spaceSm: CGFloat = 4",
+        "}",
+        "",
+        "extension Font {",
+        '    static let typographyBody = Font.custom("Inter", size: 16).weight(.semibold)',
+        "}",
+        "",
+        "extension Animation {",
+        "    static let motionFade = Animation.timingCurve(0.4, 0, 0.2, 1, duration: 0.2)",
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  test("converts dimensions with configured rem base", () => {
+    const parsed = parseDesignTokens({
+      gap: { $type: "dimension", $value: { value: 2, unit: "rem" } },
+    });
+    expect(generateSwift(nodesToMap(parsed.nodes), { remBase: 10 })).toContain(
+      "static let gap: CGFloat = 20",
+    );
+  });
+
+  test("converts colors to display p3", () => {
+    const parsed = parseDesignTokens({
+      red: {
+        $type: "color",
+        $value: { colorSpace: "display-p3", components: [1, 0, 0] },
+      },
+    });
+    expect(
+      generateSwift(nodesToMap(parsed.nodes), { colorSpace: "display-p3" }),
+    ).toContain(
+      "static let red = Color(.displayP3, red: 1, green: 0, blue: 0, opacity: 1)",
+    );
+  });
+
+  test("generates dynamic colors from dark context", async () => {
+    const result = await parseTokenResolver({
+      version: "2025.10",
+      resolutionOrder: [
+        {
+          type: "set",
+          name: "Base",
+          sources: [
+            {
+              white: {
+                $type: "color",
+                $value: { colorSpace: "srgb", components: [1, 1, 1] },
+              },
+            },
+          ],
+        },
+        {
+          type: "modifier",
+          name: "Theme",
+          default: "light",
+          contexts: {
+            light: [{ surface: { $type: "color", $value: "{white}" } }],
+            dark: [
+              {
+                surface: {
+                  $type: "color",
+                  $value: { colorSpace: "srgb", components: [0, 0, 0] },
+                },
+              },
+            ],
+          },
+        },
+      ],
+    });
+    expect(result.errors).toHaveLength(0);
+    const swift = generateSwift(nodesToMap(result.nodes));
+    expect(swift).toContain(
+      [
+        "    static let surface = Color(",
+        "        light: Color(.sRGB, red: 1, green: 1, blue: 1, opacity: 1),",
+        "        dark: Color(.sRGB, red: 0, green: 0, blue: 0, opacity: 1)",
+        "    )",
+      ].join("\n"),
+    );
+    expect(swift).toContain(
+      "    static let white = Color(.sRGB, red: 1, green: 1, blue: 1, opacity: 1)",
+    );
+    expect(swift).toContain("init(light: Color, dark: Color)");
+  });
+});
@@ -0,0 +1,178 @@
+import { camelCase } from "change-case";
+import type { TreeNode } from "./store";
+import type { TreeNodeMeta } from "./state.svelte";
+import {
+  toNumericFontWeight,
+  type ColorValue,
+  type CubicBezierValue,
+  type DimensionValue,
+  type DurationValue,
+} from "./schema";
+import { convertColor } from "./color";
+import { getDarkModeInputs, resolveDesignTokens } from "./resolver";
+import { resolveValues, toNumber, type ResolvedToken } from "./native";
+
+export type SwiftOptions = {
+  /** color space of generated colors */
+  colorSpace?: "srgb" | "display-p3";
+  /** points in one rem */
+  remBase?: number;
+};
+
+const indent = "    ";
+
+const toSwiftIdentifier = (path: string[]) => {
+  const name = camelCase(path.join(" "), { mergeAmbiguousCharacters: true });
+  return /^\d/.test(name) ? `_${name}` : name;
+};
+
+const toPoints = (value: DimensionValue, remBase: number) => {
+  return toNumber(value.unit === "rem" ? value.value * remBase : value.value);
+};
+
+const toSeconds = (value: DurationValue) => {
+  return toNumber(value.unit === "ms" ? value.value / 1000 : value.value);
+};
+
+const toSwiftColor = (
+  value: ColorValue,
+  colorSpace: NonNullable<SwiftOptions["colorSpace"]>,
+) => {
+  const color = convertColor(value, colorSpace);
+  const [red, green, blue] = color.components.map((component) =>
+    toNumber(component === "none" ? 0 : component),
+  );
+  const space = colorSpace === "display-p3" ? ".displayP3" : ".sRGB";
+  const opacity = toNumber(color.alpha ?? 1);
+  return `Color(${space}, red: ${red}, green: ${green}, blue: ${blue}, opacity: ${opacity})`;
+};
+
+const swiftFontWeights = [
+  "ultraLight",
+  "thin",
+  "light",
+  "regular",
+  "medium",
+  "semibold",
+  "bold",
+  "heavy",
+  "black",
+];
+
+const toSwiftFontWeight = (value: number) => {
+  const index = Math.min(Math.max(Math.round(value / 100), 1), 9) - 1;
+  return `.${swiftFontWeights[index]}`;
+};
+
+const systemFontFamilies = new Set([
+  "system-ui",
+  "-apple-system",
+  "BlinkMacSystemFont",
+  "sans-serif",
+]);
+
+const toSwiftAnimation = (
+  duration: DurationValue,
+  timingFunction: CubicBezierValue,
+  delay: DurationValue,
+) => {
+  const curve = timingFunction.map(toNumber).join(", ");
+  const animation = `Animation.timingCurve(${curve}, duration: ${toSeconds(duration)})`;
+  return delay.value === 0
+    ? animation
+    : `${animation}.delay(${toSeconds(delay)})`;
+};
+
+/**
+ * Generate SwiftUI extensions with colors, dimensions, fonts and animations,
+ * colors which differ in dark modifier context become dynamic
+ */
+export const generateSwift = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  options: SwiftOptions = {},
+): string => {
+  const { colorSpace = "srgb", remBase = 16 } = options;
+  const lightValues = resolveValues(resolveDesignTokens(nodes));
+  const darkInputs = getDarkModeInputs(nodes);
+  const darkValues = darkInputs
+    ? resolveValues(resolveDesignTokens(nodes, darkInputs))
+    : new Map<string, ResolvedToken>();
+  const colors: string[] = [];
+  const dimensions: string[] = [];
+  const fonts: string[] = [];
+  const animations: string[] = [];
+  let hasDynamicColors = false;
+
+  for (const [key, { path, value }] of lightValues) {
+    const name = toSwiftIdentifier(path);
+    switch (value.type) {
+      case "color": {
+        const light = toSwiftColor(value.value, colorSpace);
+        const darkValue = darkValues.get(key)?.value;
+        const dark =
+          darkValue?.type === "color"
+            ? toSwiftColor(darkValue.value, colorSpace)
+            : light;
+        if (dark === light) {
+          colors.push(`${indent}static let ${name} = ${light}`);
+        } else {
+          hasDynamicColors = true;
+          colors.push(`${indent}static let ${name} = Color(`);
+          colors.push(`${indent}${indent}light: ${light},`);
+          colors.push(`${indent}${indent}dark: ${dark}`);
+          colors.push(`${indent})`);
+        }
+        break;
+      }
+      case "dimension":
+        dimensions.push(
+          `${indent}static let ${name}: CGFloat = ${toPoints(value.value, remBase)}`,
+        );
+        break;
+      case "typography": {
+        const { fontFamily, fontSize, fontWeight } = value.value;
+        const family = Array.isArray(fontFamily) ? fontFamily[0] : fontFamily;
+        const size = toPoints(fontSize, remBase);
+        const weight = toSwiftFontWeight(toNumericFontWeight(fontWeight));
+        const font = systemFontFamilies.has(family)
+          ? `Font.system(size: ${size}, weight: ${weight})`
+          : `Font.custom(${JSON.stringify(family)}, size: ${size}).weight(${weight})`;
+        fonts.push(`${indent}static let ${name} = ${font}`);
+        break;
+      }
+      case "transition": {
+        const { duration, timingFunction, delay } = value.value;
+        animations.push(
+          `${indent}static let ${name} = ${toSwiftAnimation(duration, timingFunction, delay)}`,
+        );
+        break;
+      }
+    }
+  }
+
+  const blocks: string[][] = [["import SwiftUI"]];
+  if (colors.length > 0) {
+    blocks.push(["extension Color {", ...colors, "}"]);
+  }
+  if (dimensions.length > 0) {
+    blocks.push(["extension CGFloat {", ...dimensions, "}"]);
+  }
+  if (fonts.length > 0) {
+    blocks.push(["extension Font {", ...fonts, "}"]);
+  }
+  if (animations.length > 0) {
+    blocks.push(["extension Animation {", ...animations, "}"]);
+  }
+  if (hasDynamicColors) {
+    blocks.push([
+      "private extension Color {",
+      `${indent}init(light: Color, dark: Color) {`,
+      `${indent}${indent}self.init(UIColor { traits in`,
+      `${indent}${indent}${indent}traits.userInterfaceStyle == .dark ? UIColor(dark) : UIColor(light)`,
+      `${indent}${indent}})`,
+      `${indent}}`,
+      "}",
+    ]);
+  }
+  return blocks.map((block) => block.join("\n")).join("\n\n");
+};
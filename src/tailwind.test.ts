@@ -0,0 +1,277 @@
+import { test, expect, describe } from "vitest";
+import {
+  generateTailwindTheme,
+  getGroupNamespace,
+  setGroupNamespace,
+  tailwindExtensionKey,
+} from "./tailwind";
+import { parseDesignTokens } from "./tokens";
+import { parseTokenResolver } from "./resolver";
+import type { TreeNode } from "./store";
+import type { TreeNodeMeta } from "./state.svelte";
+
+const nodesToMap = (nodes: TreeNode<TreeNodeMeta>[]) => {
+  const map = new Map<string, TreeNode<TreeNodeMeta>>();
+  for (const node of nodes) {
+    map.set(node.nodeId, node);
+  }
+  return map;
+};
+
+describe("generateTailwindTheme", () => {
+  test("generates empty theme for empty nodes", () => {
+    expect(generateTailwindTheme(new Map())).toBe("@theme {\n}");
+  });
+
+  test("maps token types to theme namespaces", () => {
+    const parsed = parseDesignTokens({
+      colors: {
+        $type: "color",
+        red: {
+          500: { $value: { colorSpace: "srgb", components: [1, 0, 0] } },
+        },
+      },
+      space: {
+        $type: "dimension",
+        md: { $value: { value: 16, unit: "px" } },
+      },
+      radii: {
+        $type: "dimension",
+        sm: { $value: { value: 4, unit: "px" } },
+      },
+      font: {
+        sans: { $type: "fontFamily", $value: ["Inter", "sans-serif"] },
+        bold: { $type: "fontWeight", $value: 700 },
+      },
+      shadow: {
+        sm: {
+          $type: "shadow",
+          $value: {
+            color: { colorSpace: "srgb", components: [0, 0, 0], alpha: 0.5 },
+            offsetX: { value: 0, unit: "px" },
+            offsetY: { value: 1, unit: "px" },
+            blur: { value: 2, unit: "px" },
+            spread: { value: 0, unit: "px" },
+          },
+        },
+      },
+      easing: {
+        out: { $type: "cubicBezier", $value: [0, 0, 0.2, 1] },
+      },
+      duration: {
+        slow: { $type: "duration", $value: { value: 0.5, unit: "s" } },
+      },
+    });
+    expect(generateTailwindTheme(nodesToMap(parsed.nodes))).toBe(
+      [
+        "@theme {",
+        "  --color-red-500: rgb(100% 0% 0%);",
+        "  --spacing-md: 16px;",
+        "  --radius-sm: 4px;",
+        "  --font-sans: Inter, sans-serif;",
+        "  --font-weight-bold: 700;",
+        "  --shadow-sm: 0px 1px 2px 0px rgb(0% 0% 0% / 0.5);",
+        "  --ease-out: cubic-bezier(0, 0, 0.2, 1);",
+        "  --transition-duration-slow: 0.5s;",
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  test("generates typography with line height sub-variables", () => {
+    const parsed = parseDesignTokens({
+      typography: {
+        body: {
+          $type: "typography",
+          $value: {
+            fontFamily: "Inter",
+            fontSize: { value: 1, unit: "rem" },
+            fontWeight: 400,
+            letterSpacing: { value: 0, unit: "px" },
+            lineHeight: 1.5,
+          },
+        },
+        paragraph: { $value: "{typography.body}" },
+      },
+    });
+    expect(generateTailwindTheme(nodesToMap(parsed.nodes))).toBe(
+      [
+        "@theme {",
+        "  --text-body: 1rem;",
+        "  --text-body--line-height: 1.5;",
+        "  --text-body--letter-spacing: 0px;",
+        "  --text-body--font-weight: 400;",
+        "  --text-paragraph: var(--text-body);",
+        "  --text-paragraph--line-height: var(--text-body--line-height);",
+        "  --text-paragraph--letter-spacing: var(--text-body--letter-spacing);",
+        "  --text-paragraph--font-weight: var(--text-body--font-weight);",
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  test("keeps aliases as references to theme variables", () => {
+    const parsed = parseDesignTokens({
+      color: {
+        $type: "color",
+        red: { $value: { colorSpace: "srgb", components: [1, 0, 0] } },
+        danger: { $value: "{color.red}" },
+      },
+      shadow: {
+        focus: {
+          $type: "shadow",
+          $value: {
+            color: "{color.red}",
+            offsetX: { value: 0, unit: "px" },
+            offsetY: { value: 0, unit: "px" },
+            blur: { value: 0, unit: "px" },
+            spread: { value: 2, unit: "px" },
+          },
+        },
+      },
+    });
+    const css = generateTailwindTheme(nodesToMap(parsed.nodes));
+    expect(css).toContain("--color-danger: var(--color-red);");
+    expect(css).toContain("--shadow-focus: 0px 0px 0px 2px var(--color-red);");
+  });
+
+  test("uses namespace configured in group extensions", () => {
+    const parsed = parseDesignTokens({
+      rounded: {
+        $type: "dimension",
+        $extensions: { [tailwindExtensionKey]: { namespace: "radius" } },
+        card: { $value: { value: 8, unit: "px" } },
+      },
+      layout: {
+        $type: "dimension",
+        $extensions: { [tailwindExtensionKey]: { namespace: "breakpoint" } },
+        tablet: { $value: { value: 48, unit: "rem" } },
+      },
+      motion: {
+        fast: { $type: "duration", $value: { value: 100, unit: "ms" } },
+      },
+    });
+    expect(generateTailwindTheme(nodesToMap(parsed.nodes))).toBe(
+      [
+        "@theme {",
+        "  --radius-card: 8px;",
+        "  --breakpoint-tablet: 48rem;",
+        "  --transition-duration-motion-fast: 100ms;",
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  test("resolves references to tokens without namespace", () => {
+    const parsed = parseDesignTokens({
+      ratio: {
+        $type: "number",
+        relaxed: { $value: 1.625 },
+      },
+      leading: {
+        $type: "number",
+        $extensions: { [tailwindExtensionKey]: { namespace: "leading" } },
+        relaxed: { $value: "{ratio.relaxed}" },
+      },
+      typography: {
+        $type: "typography",
+        body: {
+          $value: {
+            fontFamily: "Inter",
+            fontSize: { value: 1, unit: "rem" },
+            fontWeight: 400,
+            letterSpacing: { value: 0, unit: "px" },
+            lineHeight: "{ratio.relaxed}",
+          },
+        },
+      },
+    });
+    const css = generateTailwindTheme(nodesToMap(parsed.nodes));
+    expect(css).not.toContain("var(--ratio-relaxed)");
+    expect(css).toContain("--leading-relaxed: 1.625;");
+    expect(css).toContain("--text-body--line-height: 1.625;");
+  });
+
+  test("puts default context in theme and overrides other contexts", async () => {
+    const result = await parseTokenResolver({
+      version: "2025.10",
+      resolutionOrder: [
+        {
+          type: "set",
+          name: "Base",
+          sources: [
+            {
+              color: {
+                $type: "color",
+                white: {
+                  $value: { colorSpace: "srgb", components: [1, 1, 1] },
+                },
+                black: {
+                  $value: { colorSpace: "srgb", components: [0, 0, 0] },
+                },
+              },
+            },
+          ],
+        },
+        {
+          type: "modifier",
+          name: "Theme",
+          default: "light",
+          contexts: {
+            light: [{ color: { surface: { $value: "{color.white}" } } }],
+            dark: [{ color: { surface: { $value: "{color.black}" } } }],
+          },
+        },
+      ],
+    });
+    expect(result.errors).toHaveLength(0);
+    const nodes = nodesToMap(result.nodes);
+    expect(generateTailwindTheme(nodes)).toBe(
+      [
+        "@theme {",
+        "  --color-white: rgb(100% 100% 100%);",
+        "  --color-black: rgb(0% 0% 0%);",
+        "  --color-surface: var(--color-white);",
+        "}",
+        "",
+        '[data-theme="dark"] {',
+        "  --color-surface: var(--color-black);",
+        "}",
+      ].join("\n"),
+    );
+    expect(
+      generateTailwindTheme(nodes, {
+        modifiers: { Theme: { strategy: "media" } },
+      }),
+    ).toContain(
+      [
+        "@media (prefers-color-scheme: dark) {",
+        "  :root {",
+        "    --color-surface: var(--color-black);",
+        "  }",
+        "}",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("setGroupNamespace", () => {
+  test("stores namespace next to other extensions", () => {
+    const extensions = setGroupNamespace({ "com.example": true }, "radius");
+    expect(extensions).toEqual({
+      "com.example": true,
+      [tailwindExtensionKey]: { namespace: "radius" },
+    });
+    expect(
+      getGroupNamespace({ nodeType: "token-group", name: "group", extensions }),
+    ).toBe("radius");
+  });
+
+  test("removes empty extensions", () => {
+    const extensions = setGroupNamespace(
+      { [tailwindExtensionKey]: { namespace: "radius" } },
+      undefined,
+    );
+    expect(extensions).toBeUndefined();
+  });
+});
@@ -0,0 +1,428 @@
+import { kebabCase, noCase } from "change-case";
+import type { TreeNode } from "./store";
+import { resolveTokenValue, type TreeNodeMeta } from "./state.svelte";
+import {
+  isNodeRef,
+  type NodeRef,
+  type RawShadowValue,
+  type RawTypographyValue,
+  type Value,
+} from "./schema";
+import {
+  buildChildrenByParent,
+  getContextSelector,
+  getModifiers,
+  isMediaContext,
+  referenceToVariable,
+  toCubicBezierValue,
+  toBorderValue,
+  toDimensionValue,
+  toDurationValue,
+  toFontFamilyValue,
+  toGradientValue,
+  toStrokeStyleValue,
+  toTransitionValue,
+  type CssVariablesOptions,
+} from "./css-variables";
+import { serializeColor } from "./color";
+
+export const tailwindNamespaces = [
+  "color",
+  "spacing",
+  "radius",
+  "font",
+  "font-weight",
+  "text",
+  "tracking",
+  "leading",
+  "shadow",
+  "inset-shadow",
+  "drop-shadow",
+  "blur",
+  "ease",
+  "transition-duration",
+  "breakpoint",
+  "container",
+] as const;
+
+export type TailwindNamespace = (typeof tailwindNamespaces)[number];
+
+/** group $extensions key where configured namespace is stored */
+export const tailwindExtensionKey = "dev.engramma.tailwind";
+
+// group names which are redundant in variable name within namespace
+const namespaceAliases: Partial<Record<TailwindNamespace, string[]>> = {
+  color: ["color", "colors"],
+  spacing: ["spacing", "space", "spaces"],
+  radius: ["radius", "radii", "rounded", "border-radius"],
+  font: ["font", "fonts", "font-family", "font-families"],
+  "font-weight": ["font-weight", "font-weights", "font", "fonts"],
+  text: ["text", "typography"],
+  shadow: ["shadow", "shadows"],
+  ease: ["ease", "easing", "easings"],
+  "transition-duration": ["duration", "durations", "transition-duration"],
+};
+
+const isTailwindNamespace = (value: unknown): value is TailwindNamespace => {
+  return tailwindNamespaces.includes(value as TailwindNamespace);
+};
+
+/**
+ * Get namespace configured for group with $extensions
+ */
+export const getGroupNamespace = (
+  meta: TreeNodeMeta,
+): undefined | TailwindNamespace => {
+  const extension = meta.extensions?.[tailwindExtensionKey];
+  if (typeof extension === "object" && extension !== null) {
+    const namespace = (extension as { namespace?: unknown }).namespace;
+    if (isTailwindNamespace(namespace)) {
+      return namespace;
+    }
+  }
+};
+
+/**
+ * Set or remove namespace in group $extensions
+ */
+export const setGroupNamespace = (
+  extensions: undefined | Record<string, unknown>,
+  namespace: undefined | TailwindNamespace,
+): undefined | Record<string, unknown> => {
+  const rest = { ...extensions };
+  delete rest[tailwindExtensionKey];
+  if (namespace) {
+    return { ...rest, [tailwindExtensionKey]: { namespace } };
+  }
+  return Object.keys(rest).length > 0 ? rest : undefined;
+};
+
+const inferNamespace = (
+  type: Value["type"],
+  path: string[],
+): undefined | TailwindNamespace => {
+  switch (type) {
+    case "color":
+      return "color";
+    case "dimension":
+      return path.some((name) =>
+        namespaceAliases.radius?.includes(kebabCase(name)),
+      )
+        ? "radius"
+        : "spacing";
+    case "fontFamily":
+      return "font";
+    case "fontWeight":
+      return "font-weight";
+    case "shadow":
+      return "shadow";
+    case "cubicBezier":
+      return "ease";
+    case "duration":
+      return "transition-duration";
+    case "typography":
+      return "text";
+  }
+};
+
+/**
+ * Collect groups between token and its container node
+ */
+const getParentGroups = (
+  node: TreeNode<TreeNodeMeta>,
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+) => {
+  const groups: TreeNode<TreeNodeMeta>[] = [];
+  let currentId = node.parentId;
+  while (currentId) {
+    const parent = nodes.get(currentId);
+    if (parent?.meta.nodeType !== "token-group") {
+      break;
+    }
+    groups.unshift(parent);
+    currentId = parent.parentId;
+  }
+  return groups;
+};
+
+/**
+ * Generate theme variable name with namespace configured on the closest group
+ * or inferred from token type, undefined when token has no namespace
+ */
+const getThemeVariable = (
+  node: TreeNode<TreeNodeMeta>,
+  groups: TreeNode<TreeNodeMeta>[],
+): undefined | string => {
+  if (node.meta.nodeType !== "token") {
+    return;
+  }
+  const path = [...groups.map((group) => group.meta.name), node.meta.name];
+  let namespace: undefined | TailwindNamespace;
+  let name = path;
+  for (let index = groups.length - 1; index >= 0; index -= 1) {
+    namespace = getGroupNamespace(groups[index].meta);
+    if (namespace) {
+      name = path.slice(index + 1);
+      break;
+    }
+  }
+  if (!namespace) {
+    namespace = inferNamespace(node.meta.type, path);
+    if (!namespace) {
+      return;
+    }
+    if (
+      path.length > 1 &&
+      namespaceAliases[namespace]?.includes(kebabCase(path[0]))
+    ) {
+      name = path.slice(1);
+    }
+  }
+  return `--${namespace}-${kebabCase(noCase(name.join("-")))}`;
+};
+
+/**
+ * Literal value of types without tailwind namespace
+ */
+const toLiteralValue = (
+  value: Value,
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+): undefined | string => {
+  switch (value.type) {
+    case "number":
+      return `${value.value}`;
+    case "gradient":
+      return toGradientValue(value.value, nodes);
+    case "border":
+      return toBorderValue(value.value, nodes);
+    case "transition":
+      return toTransitionValue(value.value, nodes);
+    case "strokeStyle":
+      return toStrokeStyleValue(value.value);
+  }
+};
+
+/**
+ * Reference theme variable or resolved value when token has no namespace
+ * because such tokens are omitted from theme
+ */
+const referenceToThemeVariable = (
+  nodeRef: NodeRef,
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  suffix = "",
+): string => {
+  const node = nodes.get(nodeRef.ref);
+  if (!node) {
+    return referenceToVariable(nodeRef, nodes);
+  }
+  const variable = getThemeVariable(node, getParentGroups(node, nodes));
+  if (variable) {
+    return `var(${variable}${suffix})`;
+  }
+  try {
+    const literal = toLiteralValue(resolveTokenValue(node, nodes), nodes);
+    if (literal !== undefined) {
+      return literal;
+    }
+  } catch {
+    // keep broken aliases visible as css variables
+  }
+  return referenceToVariable(nodeRef, nodes);
+};
+
+const valueOrVar = <T>(
+  value: T | NodeRef,
+  converter: (v: T) => string,
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+): string => {
+  if (isNodeRef(value)) {
+    return referenceToThemeVariable(value, nodes);
+  }
+  return converter(value as T);
+};
+
+const toShadowValue = (
+  value: RawShadowValue,
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+) => {
+  const shadows = Array.isArray(value) ? value : [value];
+  const shadowStrings = shadows.map((shadow) => {
+    const color = valueOrVar(shadow.color, serializeColor, nodes);
+    const inset = shadow.inset ? "inset " : "";
+    const offsetX = valueOrVar(shadow.offsetX, toDimensionValue, nodes);
+    const offsetY = valueOrVar(shadow.offsetY, toDimensionValue, nodes);
+    const blur = valueOrVar(shadow.blur, toDimensionValue, nodes);
+    const spread = valueOrVar(shadow.spread, toDimensionValue, nodes);
+    return `${inset}${offsetX} ${offsetY} ${blur} ${spread} ${color}`;
+  });
+  return shadowStrings.join(", ");
+};
+
+const typographySuffixes = [
+  "--line-height",
+  "--letter-spacing",
+  "--font-weight",
+] as const;
+
+/**
+ * Typography is split into font size and tailwind sub-variables
+ */
+const addTypography = (
+  variable: string,
+  value: RawTypographyValue,
+  lines: string[],
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+) => {
+  const fontSize = valueOrVar(value.fontSize, toDimensionValue, nodes);
+  const lineHeight = valueOrVar(value.lineHeight, (v) => `${v}`, nodes);
+  const letterSpacing = valueOrVar(
+    value.letterSpacing,
+    toDimensionValue,
+    nodes,
+  );
+  const fontWeight = valueOrVar(value.fontWeight, (v) => `${v}`, nodes);
+  lines.push(`  ${variable}: ${fontSize};`);
+  lines.push(`  ${variable}--line-height: ${lineHeight};`);
+  lines.push(`  ${variable}--letter-spacing: ${letterSpacing};`);
+  lines.push(`  ${variable}--font-weight: ${fontWeight};`);
+};
+
+const processNode = (
+  node: TreeNode<TreeNodeMeta>,
+  groups: TreeNode<TreeNodeMeta>[],
+  childrenByParent: Map<string | undefined, TreeNode<TreeNodeMeta>[]>,
+  lines: string[],
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+) => {
+  // modifier contexts are rendered separately
+  if (node.meta.nodeType === "modifier") {
+    return;
+  }
+
+  if (
+    node.meta.nodeType === "resolver" ||
+    node.meta.nodeType === "token-set" ||
+    node.meta.nodeType === "modifier-context"
+  ) {
+    const children = childrenByParent.get(node.nodeId) ?? [];
+    for (const child of children) {
+      processNode(child, groups, childrenByParent, lines, nodes);
+    }
+    return;
+  }
+
+  if (node.meta.nodeType === "token-group") {
+    const children = childrenByParent.get(node.nodeId) ?? [];
+    for (const child of children) {
+      processNode(child, [...groups, node], childrenByParent, lines, nodes);
+    }
+  }
+
+  if (node.meta.nodeType === "token") {
+    const token = node.meta;
+    const variable = getThemeVariable(node, groups);
+    // tokens without tailwind namespace are omitted
+    if (!variable) {
+      return;
+    }
+    if (isNodeRef(token.value)) {
+      lines.push(
+        `  ${variable}: ${referenceToThemeVariable(token.value, nodes)};`,
+      );
+      if (token.type === "typography") {
+        for (const suffix of typographySuffixes) {
+          const reference = referenceToThemeVariable(
+            token.value,
+            nodes,
+            suffix,
+          );
+          lines.push(`  ${variable}${suffix}: ${reference};`);
+        }
+      }
+      return;
+    }
+    switch (token.type) {
+      case "color":
+        lines.push(`  ${variable}: ${serializeColor(token.value)};`);
+        break;
+      case "dimension":
+        lines.push(`  ${variable}: ${toDimensionValue(token.value)};`);
+        break;
+      case "duration":
+        lines.push(`  ${variable}: ${toDurationValue(token.value)};`);
+        break;
+      case "cubicBezier":
+        lines.push(`  ${variable}: ${toCubicBezierValue(token.value)};`);
+        break;
+      case "number":
+      case "fontWeight":
+        lines.push(`  ${variable}: ${token.value};`);
+        break;
+      case "fontFamily":
+        lines.push(`  ${variable}: ${toFontFamilyValue(token.value)};`);
+        break;
+      case "shadow":
+        lines.push(`  ${variable}: ${toShadowValue(token.value, nodes)};`);
+        break;
+      case "typography":
+        addTypography(variable, token.value, lines, nodes);
+        break;
+      // no matching tailwind theme namespace
+      case "gradient":
+      case "border":
+      case "transition":
+      case "strokeStyle":
+        break;
+      default:
+        token satisfies never;
+        break;
+    }
+  }
+};
+
+/**
+ * Generate tailwind v4 @theme with tokens and default modifier contexts,
+ * other contexts override theme variables in scoped blocks
+ */
+export const generateTailwindTheme = (
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+  options: CssVariablesOptions = {},
+): string => {
+  const childrenByParent = buildChildrenByParent(nodes);
+  const themeLines: string[] = [];
+  for (const node of childrenByParent.get(undefined) ?? []) {
+    processNode(node, [], childrenByParent, themeLines, nodes);
+  }
+  const contextBlocks: string[] = [];
+  for (const modifier of getModifiers(childrenByParent)) {
+    if (modifier.meta.nodeType !== "modifier") {
+      continue;
+    }
+    const modifierOptions = options.modifiers?.[modifier.meta.name];
+    for (const context of childrenByParent.get(modifier.nodeId) ?? []) {
+      if (context.meta.name === modifier.meta.default) {
+        processNode(context, [], childrenByParent, themeLines, nodes);
+        continue;
+      }
+      const contextLines: string[] = [];
+      processNode(context, [], childrenByParent, contextLines, nodes);
+      if (contextLines.length === 0) {
+        continue;
+      }
+      const selector = getContextSelector(
+        modifier.meta.name,
+        context.meta.name,
+        modifierOptions,
+      );
+      contextBlocks.push("");
+      if (isMediaContext(context.meta.name, modifierOptions)) {
+        contextBlocks.push(`${selector} {`, "  :root {");
+        contextBlocks.push(...contextLines.map((line) => `  ${line}`));
+        contextBlocks.push("  }", "}");
+      } else {
+        contextBlocks.push(`${selector} {`, ...contextLines, "}");
+      }
+    }
+  }
+  return ["@theme {", ...themeLines, "}", ...contextBlocks].join("\n");
+};
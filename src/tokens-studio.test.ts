@@ -0,0 +1,213 @@
+import { test, expect, describe } from "vitest";
+import { isTokensStudioFormat, parseTokensStudio } from "./tokens-studio";
+import { parseTokenResolver } from "./resolver";
+
+describe("isTokensStudioFormat", () => {
+  test("detects themes, metadata and tokens without $ prefix", () => {
+    expect(isTokensStudioFormat({ $metadata: { tokenSetOrder: [] } })).toBe(
+      true,
+    );
+    expect(
+      isTokensStudioFormat({
+        $themes: [{ name: "Light", selectedTokenSets: {} }],
+      }),
+    ).toBe(true);
+    expect(
+      isTokensStudioFormat({
+        color: { red: { value: "#f00", type: "color" } },
+      }),
+    ).toBe(true);
+    expect(
+      isTokensStudioFormat({
+        color: { red: { $value: "#f00", $type: "color" } },
+      }),
+    ).toBe(false);
+  });
+});
+
+describe("parseTokensStudio", () => {
+  test("converts token values", () => {
+    const { document, errors } = parseTokensStudio({
+      global: {
+        color: {
+          red: { value: "#ff0000", type: "color", description: "Red" },
+        },
+        space: {
+          sm: { value: "4", type: "spacing" },
+          md: { value: "1rem", type: "sizing" },
+        },
+        font: {
+          weight: { value: "Semi Bold", type: "fontWeights" },
+          family: { value: "Inter, sans-serif", type: "fontFamilies" },
+          height: { value: "150%", type: "lineHeights" },
+        },
+        shadow: {
+          value: {
+            x: "0",
+            y: "2",
+            blur: "4",
+            spread: "0",
+            color: "{color.red}",
+            type: "innerShadow",
+          },
+          type: "boxShadow",
+        },
+        heading: {
+          value: {
+            fontFamily: "{font.family}",
+            fontWeight: "700",
+            fontSize: "24",
+            lineHeight: "{font.height}",
+            letterSpacing: "0%",
+          },
+          type: "typography",
+        },
+      },
+    });
+    expect(errors).toEqual([]);
+    expect(document.resolutionOrder).toEqual([
+      {
+        type: "set",
+        name: "global",
+        sources: [
+          {
+            color: {
+              red: {
+                $type: "color",
+                $value: {
+                  colorSpace: "srgb",
+                  components: [1, 0, 0],
+                  hex: "#ff0000",
+                },
+                $description: "Red",
+              },
+            },
+            space: {
+              sm: { $type: "dimension", $value: { value: 4, unit: "px" } },
+              md: { $type: "dimension", $value: { value: 1, unit: "rem" } },
+            },
+            font: {
+              weight: { $type: "fontWeight", $value: "semi-bold" },
+              family: { $type: "fontFamily", $value: ["Inter", "sans-serif"] },
+              height: { $type: "number", $value: 1.5 },
+            },
+            shadow: {
+              $type: "shadow",
+              $value: {
+                color: "{color.red}",
+                offsetX: { value: 0, unit: "px" },
+                offsetY: { value: 2, unit: "px" },
+                blur: { value: 4, unit: "px" },
+                spread: { value: 0, unit: "px" },
+                inset: true,
+              },
+            },
+            heading: {
+              $type: "typography",
+              $value: {
+                fontFamily: "{font.family}",
+                fontWeight: 700,
+                fontSize: { value: 24, unit: "px" },
+                lineHeight: "{font.height}",
+                letterSpacing: { value: 0, unit: "px" },
+              },
+            },
+          },
+        ],
+      },
+    ]);
+  });
+
+  test("translates themes into modifiers ordered by metadata", async () => {
+    const { document, errors } = parseTokensStudio({
+      light: { bg: { value: "{white}", type: "color" } },
+      dark: { bg: { value: "{black}", type: "color" } },
+      core: {
+        white: { value: "#ffffff", type: "color" },
+        black: { value: "#000000", type: "color" },
+      },
+      $themes: [
+        {
+          id: "1",
+          name: "Light",
+          group: "Mode",
+          selectedTokenSets: {
+            core: "source",
+            light: "enabled",
+            dark: "disabled",
+          },
+        },
+        {
+          id: "2",
+          name: "Dark",
+          group: "Mode",
+          selectedTokenSets: {
+            core: "source",
+            light: "disabled",
+            dark: "enabled",
+          },
+        },
+      ],
+      $metadata: { tokenSetOrder: ["core", "light", "dark"] },
+    });
+    expect(errors).toEqual([]);
+    expect(
+      document.resolutionOrder.map((item) =>
+        item.type === "set"
+          ? item.name
+          : [item.name, item.default, Object.keys(item.contexts)],
+      ),
+    ).toEqual(["core", ["Mode", "Light", ["Light", "Dark"]]]);
+
+    const result = await parseTokenResolver(document);
+    expect(result.errors).toEqual([]);
+    const contexts = result.nodes.filter(
+      (node) => node.meta.nodeType === "modifier-context",
+    );
+    expect(contexts.map((node) => node.meta.name)).toEqual(["Light", "Dark"]);
+    for (const context of contexts) {
+      expect(
+        result.nodes.some(
+          (node) => node.parentId === context.nodeId && node.meta.name === "bg",
+        ),
+      ).toBe(true);
+    }
+  });
+
+  test("reports unsupported features with paths", () => {
+    const { errors } = parseTokensStudio({
+      global: {
+        space: {
+          base: { value: "8", type: "spacing" },
+          lg: { value: "{space.base} * 2", type: "spacing" },
+        },
+        color: {
+          hover: {
+            value: "#ff0000",
+            type: "color",
+            $extensions: {
+              "studio.tokens": {
+                modify: { type: "darken", value: "0.2", space: "lch" },
+              },
+            },
+          },
+        },
+        label: { value: "Hello", type: "text" },
+      },
+    });
+    expect(errors).toEqual([
+      {
+        path: "global/space.lg",
+        message: 'Math expression "{space.base} * 2" is not supported',
+      },
+      {
+        path: "global/color.hover",
+        message: 'Color modifier "darken" is not supported',
+      },
+      {
+        path: "global/label",
+        message: 'Unsupported token type "text"',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,431 @@
+// Tokens Studio (formerly Figma Tokens) plugin export
+// https://docs.tokens.studio/
+
+import { kebabCase } from "change-case";
+import { parseCssValue } from "./css-variables";
+import {
+  fontWeightValue,
+  strokeStyleString,
+  type BorderValue,
+  type ColorValue,
+  type DimensionValue,
+  type DurationValue,
+  type FontFamilyValue,
+  type FontWeightValue,
+  type ResolvedResolverDocument,
+  type ResolvedResolverModifier,
+  type ResolvedResolverSet,
+  type ResolverSource,
+  type ShadowObject,
+  type Token,
+  type TokenType,
+  type TypographyValue,
+} from "./dtcg.schema";
+
+export type TokenSetStatus = "enabled" | "source" | "disabled";
+
+export type TokensStudioTheme = {
+  id?: string;
+  name: string;
+  group?: string;
+  selectedTokenSets: Record<string, TokenSetStatus>;
+};
+
+export type TokensStudioMetadata = {
+  tokenSetOrder?: string[];
+};
+
+const themesKey = "$themes";
+const metadataKey = "$metadata";
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+};
+
+export const isTokensStudioThemes = (
+  input: unknown,
+): input is TokensStudioTheme[] => {
+  return (
+    Array.isArray(input) &&
+    input.every(
+      (item) =>
+        isObject(item) &&
+        typeof item.name === "string" &&
+        isObject(item.selectedTokenSets),
+    )
+  );
+};
+
+export const isTokensStudioMetadata = (
+  input: unknown,
+): input is TokensStudioMetadata => {
+  return isObject(input) && Array.isArray(input.tokenSetOrder);
+};
+
+const isStudioToken = (value: unknown): value is Record<string, unknown> => {
+  return isObject(value) && ("value" in value || "$value" in value);
+};
+
+// tokens studio writes value and type without $ prefix by default
+const hasLegacyTokens = (input: unknown): boolean => {
+  if (!isObject(input)) {
+    return false;
+  }
+  if (isStudioToken(input)) {
+    return "value" in input && typeof input.type === "string";
+  }
+  return Object.values(input).some(hasLegacyTokens);
+};
+
+/**
+ * Single file export with all token sets, $themes and $metadata
+ */
+export const isTokensStudioFormat = (input: unknown): boolean => {
+  return (
+    isObject(input) &&
+    (isTokensStudioThemes(input[themesKey]) ||
+      isTokensStudioMetadata(input[metadataKey]) ||
+      hasLegacyTokens(input))
+  );
+};
+
+const typeMapping: Record<string, TokenType> = {
+  color: "color",
+  dimension: "dimension",
+  sizing: "dimension",
+  spacing: "dimension",
+  borderRadius: "dimension",
+  borderWidth: "dimension",
+  fontSizes: "dimension",
+  paragraphSpacing: "dimension",
+  paragraphIndent: "dimension",
+  letterSpacing: "dimension",
+  fontFamilies: "fontFamily",
+  fontFamily: "fontFamily",
+  fontWeights: "fontWeight",
+  fontWeight: "fontWeight",
+  lineHeights: "number",
+  lineHeight: "number",
+  opacity: "number",
+  number: "number",
+  duration: "duration",
+  boxShadow: "shadow",
+  shadow: "shadow",
+  border: "border",
+  typography: "typography",
+};
+
+const aliasRegex = /^\{[^{}]+\}$/;
+const arithmeticRegex = /[*/+]|\s-\s|^(?:min|max|round|floor|ceil)\(/;
+
+/**
+ * Keep aliases as is and reject values computed from other tokens
+ */
+const convertValue = <T>(
+  value: unknown,
+  convert: (value: unknown) => T,
+): T | string => {
+  if (typeof value !== "string") {
+    return convert(value);
+  }
+  const text = value.trim();
+  if (aliasRegex.test(text)) {
+    return text;
+  }
+  if (text.includes("{")) {
+    throw Error(`Math expression "${text}" is not supported`);
+  }
+  return convert(text);
+};
+
+const checkArithmetic = (text: string) => {
+  if (arithmeticRegex.test(text)) {
+    throw Error(`Math expression "${text}" is not supported`);
+  }
+};
+
+const toColor = (value: unknown): ColorValue => {
+  const token = parseCssValue(String(value));
+  if (token?.$type !== "color") {
+    throw Error(`Unsupported color "${value}"`);
+  }
+  return token.$value as ColorValue;
+};
+
+// unitless numbers are pixels in tokens studio
+const toDimension = (value: unknown): DimensionValue => {
+  const text = String(value);
+  checkArithmetic(text);
+  const match = text.match(/^(-?\d*\.?\d+)(px|rem)?$/);
+  if (match) {
+    return {
+      value: Number(match[1]),
+      unit: (match[2] as undefined | DimensionValue["unit"]) ?? "px",
+    };
+  }
+  // zero is the same in any unit
+  if (/^-?0*\.?0+(?:[a-z]+|%)$/.test(text)) {
+    return { value: 0, unit: "px" };
+  }
+  throw Error(`Unsupported dimension "${text}"`);
+};
+
+// percents like "150%" are converted to ratio
+const toNumber = (value: unknown): number => {
+  const text = String(value);
+  checkArithmetic(text);
+  const match = text.match(/^(-?\d*\.?\d+)(%)?$/);
+  if (!match) {
+    throw Error(`Unsupported number "${text}"`);
+  }
+  return match[2] ? Number(match[1]) / 100 : Number(match[1]);
+};
+
+const toDuration = (value: unknown): DurationValue => {
+  const text = String(value);
+  checkArithmetic(text);
+  const match = text.match(/^(-?\d*\.?\d+)(ms|s)?$/);
+  if (!match) {
+    throw Error(`Unsupported duration "${text}"`);
+  }
+  return {
+    value: Number(match[1]),
+    unit: (match[2] as undefined | DurationValue["unit"]) ?? "ms",
+  };
+};
+
+// figma style names like "Semi Bold" match dtcg keywords in kebab case
+const toFontWeight = (value: unknown): FontWeightValue => {
+  const text = String(value);
+  if (/^\d+$/.test(text)) {
+    return Number(text);
+  }
+  const result = fontWeightValue.safeParse(kebabCase(text));
+  if (!result.success) {
+    throw Error(`Unsupported font weight "${text}"`);
+  }
+  return result.data;
+};
+
+const toFontFamily = (value: unknown): FontFamilyValue => {
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+  const families = String(value)
+    .split(",")
+    .map((family) => family.trim().replace(/^["']|["']$/g, ""));
+  return families.length === 1 ? families[0] : families;
+};
+
+const toShadowObject = (value: unknown): ShadowObject => {
+  if (!isObject(value)) {
+    throw Error(`Unsupported shadow ${JSON.stringify(value)}`);
+  }
+  return {
+    color: convertValue(value.color, toColor),
+    offsetX: convertValue(value.x ?? 0, toDimension),
+    offsetY: convertValue(value.y ?? 0, toDimension),
+    blur: convertValue(value.blur ?? 0, toDimension),
+    spread: convertValue(value.spread ?? 0, toDimension),
+    inset: value.type === "innerShadow",
+  } as ShadowObject;
+};
+
+const toBorder = (value: unknown): BorderValue => {
+  if (!isObject(value)) {
+    throw Error(`Unsupported border ${JSON.stringify(value)}`);
+  }
+  return {
+    color: convertValue(value.color, toColor),
+    width: convertValue(value.width ?? 1, toDimension),
+    style: convertValue(value.style ?? "solid", (style) => {
+      const result = strokeStyleString.safeParse(style);
+      if (!result.success) {
+        throw Error(`Unsupported border style "${style}"`);
+      }
+      return result.data;
+    }),
+  } as BorderValue;
+};
+
+const toTypography = (value: unknown): TypographyValue => {
+  if (!isObject(value)) {
+    throw Error(`Unsupported typography ${JSON.stringify(value)}`);
+  }
+  return {
+    fontFamily: convertValue(value.fontFamily, toFontFamily),
+    fontSize: convertValue(value.fontSize, toDimension),
+    fontWeight: convertValue(value.fontWeight ?? 400, toFontWeight),
+    letterSpacing: convertValue(value.letterSpacing ?? 0, toDimension),
+    lineHeight: convertValue(value.lineHeight, (lineHeight) => {
+      if (String(lineHeight).toLowerCase() === "auto") {
+        throw Error(`Unsupported line height "${lineHeight}"`);
+      }
+      return toNumber(lineHeight);
+    }),
+  } as TypographyValue;
+};
+
+const convertTokenValue = (type: TokenType, value: unknown) => {
+  switch (type) {
+    case "color":
+      return convertValue(value, toColor);
+    case "dimension":
+      return convertValue(value, toDimension);
+    case "number":
+      return convertValue(value, toNumber);
+    case "duration":
+      return convertValue(value, toDuration);
+    case "fontWeight":
+      return convertValue(value, toFontWeight);
+    case "fontFamily":
+      return convertValue(value, toFontFamily);
+    case "shadow":
+      return Array.isArray(value)
+        ? value.map(toShadowObject)
+        : convertValue(value, toShadowObject);
+    case "border":
+      return convertValue(value, toBorder);
+    case "typography":
+      return convertValue(value, toTypography);
+  }
+  throw Error(`Unsupported token type "${type}"`);
+};
+
+const convertToken = (
+  token: Record<string, unknown>,
+  report: (message: string) => void,
+): undefined | Token => {
+  const type = String(token.type ?? token.$type);
+  const value = token.value ?? token.$value;
+  const description = token.description ?? token.$description;
+  const extensions = token.$extensions;
+  const studioExtension = isObject(extensions)
+    ? extensions["studio.tokens"]
+    : undefined;
+  if (isObject(studioExtension) && isObject(studioExtension.modify)) {
+    report(`Color modifier "${studioExtension.modify.type}" is not supported`);
+  }
+  const tokenType = typeMapping[type];
+  if (!tokenType) {
+    report(`Unsupported token type "${type}"`);
+    return;
+  }
+  try {
+    return {
+      $type: tokenType,
+      $value: convertTokenValue(tokenType, value) as Token["$value"],
+      ...(typeof description === "string" && { $description: description }),
+    };
+  } catch (error) {
+    report(error instanceof Error ? error.message : String(error));
+  }
+};
+
+const convertTokenSet = (
+  setName: string,
+  input: unknown,
+  errors: { path: string; message: string }[],
+) => {
+  const convertGroup = (group: Record<string, unknown>, path: string[]) => {
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(group)) {
+      if (key === "$description") {
+        result[key] = child;
+      }
+      if (key.startsWith("$") || !isObject(child)) {
+        continue;
+      }
+      const childPath = [...path, key];
+      if (isStudioToken(child)) {
+        const token = convertToken(child, (message) =>
+          errors.push({ path: `${setName}/${childPath.join(".")}`, message }),
+        );
+        if (token) {
+          result[key] = token;
+        }
+      } else {
+        result[key] = convertGroup(child, childPath);
+      }
+    }
+    return result;
+  };
+  return (isObject(input) ? convertGroup(input, []) : {}) as ResolverSource;
+};
+
+/**
+ * Convert tokens studio token sets, $themes and $metadata into
+ * resolver document. Sets enabled only in some themes of a group
+ * become contexts of modifier named by the group, other sets are base sets.
+ * Math expressions and color modifiers are reported as errors.
+ *
+ * @param input - token set name -> tokens with optional $themes and $metadata
+ */
+export const parseTokensStudio = (
+  input: Record<string, unknown>,
+): {
+  document: ResolvedResolverDocument;
+  errors: { path: string; message: string }[];
+} => {
+  const errors: { path: string; message: string }[] = [];
+  const themes = isTokensStudioThemes(input[themesKey]) ? input[themesKey] : [];
+  const metadata = isTokensStudioMetadata(input[metadataKey])
+    ? input[metadataKey]
+    : {};
+  const setNames = [
+    ...new Set([...(metadata.tokenSetOrder ?? []), ...Object.keys(input)]),
+  ].filter((name) => name in input && !name.startsWith("$"));
+  const sets = new Map(
+    setNames.map((name) => [name, convertTokenSet(name, input[name], errors)]),
+  );
+
+  const themesByGroup = new Map<string, TokensStudioTheme[]>();
+  for (const theme of themes) {
+    const group = theme.group ?? "theme";
+    themesByGroup.set(group, [...(themesByGroup.get(group) ?? []), theme]);
+  }
+  const isEnabled = (theme: TokensStudioTheme, setName: string) => {
+    return theme.selectedTokenSets[setName] === "enabled";
+  };
+  // sets switched on and off within group depend on its themes
+  const variesInGroup = (groupThemes: TokensStudioTheme[], setName: string) => {
+    return groupThemes.some(
+      (theme) =>
+        isEnabled(theme, setName) !== isEnabled(groupThemes[0], setName),
+    );
+  };
+
+  const resolutionOrder: ResolvedResolverDocument["resolutionOrder"] = [];
+  for (const [name, tokens] of sets) {
+    const isContextSet = Array.from(themesByGroup.values()).some(
+      (groupThemes) => variesInGroup(groupThemes, name),
+    );
+    if (!isContextSet) {
+      const set: ResolvedResolverSet = { type: "set", name, sources: [tokens] };
+      resolutionOrder.push(set);
+    }
+  }
+  for (const [group, groupThemes] of themesByGroup) {
+    const contextSetNames = setNames.filter((name) =>
+      variesInGroup(groupThemes, name),
+    );
+    // themes with the same sets do not change anything
+    if (contextSetNames.length === 0) {
+      continue;
+    }
+    const contexts: ResolvedResolverModifier["contexts"] = {};
+    for (const theme of groupThemes) {
+      contexts[theme.name] = contextSetNames
+        .filter((name) => isEnabled(theme, name))
+        .map((name) => sets.get(name)!);
+    }
+    const modifier: ResolvedResolverModifier = {
+      type: "modifier",
+      name: group,
+      contexts,
+      default: groupThemes[0].name,
+    };
+    resolutionOrder.push(modifier);
+  }
+  return { document: { version: "2025.10", resolutionOrder }, errors };
+};
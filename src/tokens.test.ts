@@ -1125,6 +1125,43 @@ describe("parseDesignTokens", () => {
   });
 });
 
+describe("parseDesignTokens - group $extends", () => {
+  test("references extended group node", () => {
+    const result = parseDesignTokens({
+      base: { padding: { $type: "number", $value: 8 } },
+      large: { $extends: "{base}" },
+    });
+    expect(result.errors).toEqual([]);
+    const base = result.nodes.find((node) => node.meta.name === "base");
+    const large = result.nodes.find((node) => node.meta.name === "large");
+    expect(large?.meta).toMatchObject({
+      nodeType: "token-group",
+      extends: { ref: base?.nodeId },
+    });
+  });
+
+  test("reports missing groups and circular extends", () => {
+    const result = parseDesignTokens({
+      token: { $type: "number", $value: 1 },
+      missing: { $extends: "{unknown}" },
+      notGroup: { $extends: "{token}" },
+      a: { $extends: "{b}" },
+      b: { $extends: "{a}" },
+      parent: { child: { $extends: "{parent}" } },
+    });
+    expect(result.errors).toEqual([
+      { path: "missing", message: "Extended group {unknown} not found" },
+      { path: "notGroup", message: "Extended group {token} not found" },
+      { path: "a", message: "Circular group extension {b}" },
+      { path: "b", message: "Circular group extension {a}" },
+      { path: "parent.child", message: "Circular group extension {parent}" },
+    ]);
+    // groups are kept without extends
+    const a = result.nodes.find((node) => node.meta.name === "a");
+    expect(a?.meta).toEqual({ nodeType: "token-group", name: "a" });
+  });
+});
+
 describe("serializeDesignTokens", () => {
   test("serializes empty nodes to empty object", () => {
     const result = serializeDesignTokens(new Map());
@@ -1808,6 +1845,26 @@ describe("serializeDesignTokens", () => {
     const serialized = serializeDesignTokens(nodesToMap(parsed.nodes));
     expect(serialized).toEqual(input);
   });
+
+  test("serializes group $extends unchanged", () => {
+    const input = {
+      button: {
+        $type: "dimension",
+        base: {
+          padding: { $value: { value: 8, unit: "px" } },
+          radius: { $value: { value: 4, unit: "px" } },
+        },
+        large: {
+          $extends: "{button.base}",
+          padding: { $value: { value: 16, unit: "px" } },
+        },
+      },
+    };
+    const parsed = parseDesignTokens(input);
+    expect(parsed.errors).toEqual([]);
+    const serialized = serializeDesignTokens(nodesToMap(parsed.nodes));
+    expect(serialized).toEqual(input);
+  });
 });
 
 // ============================================================================
@@ -2305,3 +2362,124 @@ describe("parseDesignTokens - Legacy Format Migration", () => {
     expect(result.errors).toHaveLength(0);
   });
 });
+
+// ============================================================================
+// STYLE DICTIONARY FORMAT TESTS
+// ============================================================================
+
+describe("parseDesignTokens - Style Dictionary Format", () => {
+  test("converts value, type and comment", () => {
+    const result = parseDesignTokens(
+      {
+        color: {
+          base: {
+            red: { value: "#ff0000", type: "color", comment: "Brand red" },
+          },
+        },
+        opacity: { half: { value: 0.5 } },
+      },
+      { styleDictionary: true },
+    );
+    expect(result.errors).toEqual([]);
+    const red = result.nodes.find((node) => node.meta.name === "red");
+    expect(red?.meta).toEqual({
+      nodeType: "token",
+      name: "red",
+      type: "color",
+      value: { colorSpace: "srgb", components: [1, 0, 0], hex: "#ff0000" },
+      description: "Brand red",
+    });
+    const half = result.nodes.find((node) => node.meta.name === "half");
+    expect(half?.meta).toMatchObject({ type: "number", value: 0.5 });
+  });
+
+  test("drops trailing value from references", () => {
+    const result = parseDesignTokens(
+      {
+        color: {
+          base: { red: { value: "#ff0000", type: "color" } },
+          primary: { value: "{color.base.red.value}" },
+        },
+      },
+      { styleDictionary: true },
+    );
+    expect(result.errors).toEqual([]);
+    const red = result.nodes.find((node) => node.meta.name === "red");
+    const primary = result.nodes.find((node) => node.meta.name === "primary");
+    expect(primary?.meta).toMatchObject({
+      type: "color",
+      value: { ref: red?.nodeId },
+    });
+  });
+
+  test("keeps CTI attributes in extensions and infers type from category", () => {
+    const result = parseDesignTokens(
+      {
+        size: {
+          padding: {
+            small: {
+              value: 4,
+              attributes: { category: "size", type: "padding", item: "small" },
+            },
+          },
+        },
+      },
+      { styleDictionary: true },
+    );
+    expect(result.errors).toEqual([]);
+    const small = result.nodes.find((node) => node.meta.name === "small");
+    expect(small?.meta).toEqual({
+      nodeType: "token",
+      name: "small",
+      type: "dimension",
+      value: { value: 4, unit: "px" },
+      extensions: {
+        "com.amazon.style-dictionary": {
+          attributes: { category: "size", type: "padding", item: "small" },
+        },
+      },
+    });
+  });
+
+  test("reports unconvertible tokens by path", () => {
+    const result = parseDesignTokens(
+      {
+        border: {
+          thin: { value: "1px solid {color.base.red.value}" },
+          width: { value: "1px" },
+        },
+      },
+      { styleDictionary: true },
+    );
+    expect(result.errors).toEqual([
+      {
+        path: "border.thin",
+        message: expect.stringContaining(
+          "References inside values are not supported",
+        ),
+      },
+    ]);
+    expect(
+      result.nodes.find((node) => node.meta.name === "width")?.meta,
+    ).toMatchObject({ type: "dimension", value: { value: 1, unit: "px" } });
+  });
+
+  test("keeps DTCG tokens named value when format is not detected", () => {
+    const result = parseDesignTokens({
+      opacity: {
+        $type: "number",
+        value: { $value: 0.5 },
+        half: { $value: 0.25 },
+      },
+    });
+    expect(result.errors).toEqual([]);
+    expect(result.nodes.map((node) => node.meta.name)).toEqual([
+      "opacity",
+      "value",
+      "half",
+    ]);
+    expect(
+      result.nodes.find((node) => node.meta.name === "value")?.meta,
+    ).toMatchObject({ nodeType: "token", type: "number", value: 0.5 });
+  });
+});
@@ -23,6 +23,10 @@ import {
   type Token,
 } from "./dtcg.schema";
 import { backwardCompatibleTokenSchema } from "./legacy.schema";
+import {
+  isStyleDictionaryToken,
+  parseStyleDictionaryToken,
+} from "./style-dictionary.schema";
 
 type TreeNodeMeta = GroupMeta | TokenMeta;
 
@@ -155,6 +159,42 @@ const isTokenReference = (value: unknown): value is string => {
   return referenceSchema.safeParse(value).success;
 };
 
+// put $ref object at component path like "fontFamily" or "[1].offsetY"
+const putJsonPointerRef = (
+  value: unknown,
+  keys: string[],
+  targetRef: string,
+): unknown => {
+  if (keys.length === 0) {
+    return { $ref: targetRef };
+  }
+  const [key, ...rest] = keys;
+  const index = key.match(/^\[(\d+)\]$/)?.[1];
+  if (Array.isArray(value) && index !== undefined) {
+    return value.map((item, itemIndex) =>
+      itemIndex === Number(index)
+        ? putJsonPointerRef(item, rest, targetRef)
+        : item,
+    );
+  }
+  if (isObject(value) && key in value) {
+    return { ...value, [key]: putJsonPointerRef(value[key], rest, targetRef) };
+  }
+  return value;
+};
+
+// restore JSON Pointer refs replaced with values on import or in editor
+const serializeJsonPointerRefs = (
+  value: Token["$value"],
+  jsonPointerRefs: JsonPointerRefInfo[],
+) => {
+  let result: unknown = value;
+  for (const { componentKey, targetRef } of jsonPointerRefs) {
+    result = putJsonPointerRef(result, componentKey.split("."), targetRef);
+  }
+  return result as Token["$value"];
+};
+
 /**
  * Input type for captured JSON Pointer refs (from resolver.ts)
  */
@@ -164,9 +204,15 @@ export type CapturedJsonPointerRef = {
   targetTokenPath: string;
 };
 
+export type ExtractOptions = {
+  /** convert tokens without $ prefixes, only for detected style dictionary files */
+  styleDictionary?: boolean;
+};
+
 export const extractIntermediaryNodes = (
   input: unknown,
   capturedRefs?: Map<string, CapturedJsonPointerRef>,
+  options: ExtractOptions = {},
 ) => {
   const nodes = new Map<string, IntermediaryNode>();
   const errors: Array<{ path: string; message: string }> = [];
@@ -187,9 +233,12 @@ export const extractIntermediaryNodes = (
       return;
     }
     // explicitly distinct token from group based on $value
+    // or value without $ prefix in style dictionary format
     const payload = isTokenObject(data)
       ? backwardCompatibleTokenSchema.safeParse(data)
-      : groupSchema.safeParse(data);
+      : options.styleDictionary && isStyleDictionaryToken(data)
+        ? parseStyleDictionaryToken(data)
+        : groupSchema.safeParse(data);
     if (!payload.success) {
       const message = prettifyError(payload.error);
       errors.push({ path: path.join("."), message });
@@ -289,6 +338,24 @@ export const resolveIntermediaryNodes = (
     }
   };
 
+  // group extending itself or group containing it through $extends chain
+  const isExtendsCircular = (path: string) => {
+    const visited = new Set<string>();
+    let payload = intermediaryNodes.get(path)?.payload;
+    while (payload && !("$value" in payload) && payload.$extends) {
+      const targetPath = getPathFromTokenRef(payload.$extends);
+      if (targetPath === path || path.startsWith(`${targetPath}.`)) {
+        return true;
+      }
+      if (visited.has(targetPath)) {
+        return false;
+      }
+      visited.add(targetPath);
+      payload = availableNodes.get(targetPath)?.payload;
+    }
+    return false;
+  };
+
   const getNodeRefOrValue = <Value extends RawValue["value"]>(
     value: string | Value,
   ): NodeRef | Value => {
@@ -439,6 +506,23 @@ export const resolveIntermediaryNodes = (
       // group node
 
       const group = intermediaryNode.payload;
+      let extendsRef: undefined | NodeRef;
+      if (group.$extends) {
+        const target = availableNodes.get(getPathFromTokenRef(group.$extends));
+        if (!target || "$value" in target.payload) {
+          errors.push({
+            path,
+            message: `Extended group ${group.$extends} not found`,
+          });
+        } else if (isExtendsCircular(path)) {
+          errors.push({
+            path,
+            message: `Circular group extension ${group.$extends}`,
+          });
+        } else {
+          extendsRef = { ref: target.nodeId };
+        }
+      }
       meta = {
         nodeType: "token-group",
         name: intermediaryNode.name,
@@ -446,6 +530,7 @@ export const resolveIntermediaryNodes = (
         description: group.$description,
         deprecated: group.$deprecated,
         extensions: group.$extensions,
+        extends: extendsRef,
       };
     }
 
@@ -458,9 +543,12 @@ export const resolveIntermediaryNodes = (
   return { nodes, errors };
 };
 
-export const parseDesignTokens = (input: unknown): ParseResult => {
+export const parseDesignTokens = (
+  input: unknown,
+  options: ExtractOptions = {},
+): ParseResult => {
   const { nodes: intermediaryNodes, errors: intermediaryErrors } =
-    extractIntermediaryNodes(input);
+    extractIntermediaryNodes(input, undefined, options);
   const { nodes, errors: resolverErrors } = resolveIntermediaryNodes(
     intermediaryNodes,
     intermediaryNodes,
@@ -468,9 +556,15 @@ export const parseDesignTokens = (input: unknown): ParseResult => {
   return { nodes, errors: [...intermediaryErrors, ...resolverErrors] };
 };
 
+export type SerializeOptions = {
+  /** write components with JSON Pointer refs as $ref objects */
+  jsonPointerRefs?: boolean;
+};
+
 export const serializeDesignTokens = (
   nodes: Map<string, TreeNode<TreeNodeMeta>>,
   availableNodes: Map<string, TreeNode<TreeNodeMeta>> = nodes,
+  options: SerializeOptions = {},
 ): Record<string, Token | Group> => {
   const roots: TreeNode<TreeNodeMeta>[] = [];
   const childrenMap = new Map<string | undefined, TreeNode<TreeNodeMeta>[]>();
@@ -519,11 +613,13 @@ export const serializeDesignTokens = (
       meta.type && inheritedType !== meta.type ? meta.type : undefined;
 
     if (meta.nodeType === "token-group") {
+      const extendsPath = meta.extends && nodeIdToPath.get(meta.extends.ref);
       const group: Group = {
         $type: type,
         $description: meta.description,
         $deprecated: meta.deprecated,
         $extensions: meta.extensions,
+        $extends: extendsPath ? `{${extendsPath}}` : undefined,
       };
       // Add children
       const children = childrenMap.get(node.nodeId) ?? [];
@@ -537,12 +633,16 @@ export const serializeDesignTokens = (
     }
 
     if (meta.nodeType === "token") {
+      const value = serializeTokenValue(meta, nodeIdToPath);
       const token: Token = {
         $type: type,
         $description: meta.description,
         $deprecated: meta.deprecated,
         $extensions: meta.extensions,
-        $value: serializeTokenValue(meta, nodeIdToPath),
+        $value:
+          options.jsonPointerRefs && meta.jsonPointerRefs
+            ? serializeJsonPointerRefs(value, meta.jsonPointerRefs)
+            : value,
       };
       return token;
     }
@@ -0,0 +1,130 @@
+import { test, expect, describe } from "vitest";
+import {
+  createTypeScaleNodes,
+  defaultTypeScaleSettings,
+  generateTypeScale,
+  getTypeScaleStepName,
+  type TypeScaleSettings,
+} from "./type-scale";
+import type { GroupMeta } from "./state.svelte";
+import type { TreeNode } from "./store";
+
+const settings: TypeScaleSettings = {
+  ...defaultTypeScaleSettings,
+  baseSize: 16,
+  ratio: 1.25,
+  minStep: -1,
+  maxStep: 2,
+  unit: "px",
+  lineHeight: "fixed",
+  bodyLineHeight: 1.5,
+  tracking: 0,
+};
+
+const group: TreeNode<GroupMeta> = {
+  nodeId: "text",
+  parentId: undefined,
+  index: "a0",
+  meta: { nodeType: "token-group", name: "text" },
+};
+
+describe("getTypeScaleStepName", () => {
+  test("names steps around base", () => {
+    expect([-3, -2, -1, 0, 1, 2, 3, 4].map(getTypeScaleStepName)).toEqual([
+      "2xs",
+      "xs",
+      "sm",
+      "base",
+      "lg",
+      "xl",
+      "2xl",
+      "3xl",
+    ]);
+  });
+});
+
+describe("generateTypeScale", () => {
+  test("multiplies base size by ratio per step", () => {
+    const steps = generateTypeScale(settings);
+    expect(steps.map((step) => step.name)).toEqual(["sm", "base", "lg", "xl"]);
+    expect(steps.map((step) => step.fontSize)).toEqual([
+      { value: 12.8, unit: "px" },
+      { value: 16, unit: "px" },
+      { value: 20, unit: "px" },
+      { value: 25, unit: "px" },
+    ]);
+    expect(steps.every((step) => step.lineHeight === 1.5)).toBe(true);
+  });
+
+  test("converts sizes to rem", () => {
+    const steps = generateTypeScale({ ...settings, unit: "rem" });
+    expect(steps[3].fontSize).toEqual({ value: 1.5625, unit: "rem" });
+  });
+
+  test("tightens line height towards the largest step", () => {
+    const steps = generateTypeScale({
+      ...settings,
+      lineHeight: "tighten",
+      headingLineHeight: 1.1,
+    });
+    expect(steps.map((step) => step.lineHeight)).toEqual([1.5, 1.5, 1.3, 1.1]);
+  });
+
+  test("snaps line box to baseline grid", () => {
+    const steps = generateTypeScale({
+      ...settings,
+      lineHeight: "grid",
+      gridSize: 4,
+    });
+    // 20px * 1.5 = 30px line box is rounded up to 32px
+    expect(steps[2].lineHeight).toBe(1.6);
+    expect(steps[1].lineHeight).toBe(1.5);
+  });
+
+  test("tracks larger steps tighter", () => {
+    const steps = generateTypeScale({ ...settings, tracking: 0.01 });
+    expect(steps.map((step) => step.letterSpacing.value)).toEqual([
+      0, 0, -0.2, -0.5,
+    ]);
+  });
+});
+
+describe("createTypeScaleNodes", () => {
+  test("creates dimension tokens", () => {
+    const nodes = createTypeScaleNodes(group, generateTypeScale(settings), {
+      type: "dimension",
+    });
+    expect(nodes[0].meta).toEqual({ ...group.meta, type: "dimension" });
+    expect(nodes[2]).toMatchObject({
+      parentId: "text",
+      meta: {
+        nodeType: "token",
+        name: "base",
+        type: "dimension",
+        value: { value: 16, unit: "px" },
+      },
+    });
+  });
+
+  test("creates typography composites aliasing font tokens", () => {
+    const nodes = createTypeScaleNodes(group, generateTypeScale(settings), {
+      type: "typography",
+      fontFamily: { ref: "font-family-body" },
+      fontWeight: 400,
+    });
+    expect(nodes).toHaveLength(5);
+    expect(nodes[0].meta).toEqual({ ...group.meta, type: "typography" });
+    expect(nodes[3].meta).toEqual({
+      nodeType: "token",
+      name: "lg",
+      type: "typography",
+      value: {
+        fontFamily: { ref: "font-family-body" },
+        fontSize: { value: 20, unit: "px" },
+        fontWeight: 400,
+        letterSpacing: { value: 0, unit: "px" },
+        lineHeight: 1.5,
+      },
+    });
+  });
+});
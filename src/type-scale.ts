@@ -0,0 +1,182 @@
+import { generateKeyBetween } from "fractional-indexing";
+import type { DimensionValue, RawTypographyValue } from "./schema";
+import type { GroupMeta, TreeNodeMeta } from "./state.svelte";
+import type { TreeNode } from "./store";
+
+export const typeScaleRatios = [
+  { name: "Minor second", value: 1.067 },
+  { name: "Major second", value: 1.125 },
+  { name: "Minor third", value: 1.2 },
+  { name: "Major third", value: 1.25 },
+  { name: "Perfect fourth", value: 1.333 },
+  { name: "Augmented fourth", value: 1.414 },
+  { name: "Perfect fifth", value: 1.5 },
+  { name: "Golden ratio", value: 1.618 },
+];
+
+export type TypeScaleSettings = {
+  /** font size of step 0 in px */
+  baseSize: number;
+  ratio: number;
+  minStep: number;
+  maxStep: number;
+  unit: "px" | "rem";
+  /**
+   * fixed keeps body line height for every step,
+   * tighten moves from body to heading line height towards the largest step,
+   * grid fits line box of body line height into multiple of grid size
+   */
+  lineHeight: "fixed" | "tighten" | "grid";
+  bodyLineHeight: number;
+  headingLineHeight: number;
+  gridSize: number;
+  /** letter spacing in em removed per step above base, 0 keeps normal */
+  tracking: number;
+};
+
+export const defaultTypeScaleSettings: TypeScaleSettings = {
+  baseSize: 16,
+  ratio: 1.25,
+  minStep: -2,
+  maxStep: 5,
+  unit: "rem",
+  lineHeight: "tighten",
+  bodyLineHeight: 1.5,
+  headingLineHeight: 1.1,
+  gridSize: 4,
+  tracking: 0.005,
+};
+
+export type TypeScaleStep = {
+  name: string;
+  step: number;
+  fontSize: DimensionValue;
+  lineHeight: number;
+  letterSpacing: DimensionValue;
+};
+
+const remBase = 16;
+
+// adding zero turns -0 of untracked steps into 0
+const round = (value: number, digits: number) =>
+  Math.round(value * 10 ** digits) / 10 ** digits + 0;
+
+/**
+ * T-shirt names around base step like tailwind font sizes
+ * -2 -> xs, -1 -> sm, 0 -> base, 1 -> lg, 2 -> xl, 3 -> 2xl
+ */
+export const getTypeScaleStepName = (step: number): string => {
+  if (step === 0) {
+    return "base";
+  }
+  if (step === 1) {
+    return "lg";
+  }
+  if (step === -1) {
+    return "sm";
+  }
+  const size = Math.abs(step) - 1;
+  const prefix = size > 1 ? String(size) : "";
+  return step > 0 ? `${prefix}xl` : `${prefix}xs`;
+};
+
+const getLineHeight = (
+  settings: TypeScaleSettings,
+  step: number,
+  fontSize: number,
+) => {
+  if (settings.lineHeight === "tighten" && step > 0 && settings.maxStep > 0) {
+    const t = step / settings.maxStep;
+    return round(
+      settings.bodyLineHeight +
+        (settings.headingLineHeight - settings.bodyLineHeight) * t,
+      3,
+    );
+  }
+  if (settings.lineHeight === "grid" && settings.gridSize > 0) {
+    const lineBox =
+      Math.ceil((fontSize * settings.bodyLineHeight) / settings.gridSize) *
+      settings.gridSize;
+    return round(lineBox / fontSize, 3);
+  }
+  return settings.bodyLineHeight;
+};
+
+const toDimension = (px: number, unit: TypeScaleSettings["unit"]) =>
+  unit === "rem"
+    ? { value: round(px / remBase, 4), unit }
+    : { value: round(px, 2), unit };
+
+/**
+ * Modular scale from the smallest to the largest step,
+ * every size is base size multiplied by ratio to the power of step
+ */
+export const generateTypeScale = (
+  settings: TypeScaleSettings,
+): TypeScaleStep[] => {
+  const steps: TypeScaleStep[] = [];
+  for (let step = settings.minStep; step <= settings.maxStep; step += 1) {
+    const fontSize = settings.baseSize * settings.ratio ** step;
+    const letterSpacingEm = step > 0 ? -settings.tracking * step : 0;
+    steps.push({
+      name: getTypeScaleStepName(step),
+      step,
+      fontSize: toDimension(fontSize, settings.unit),
+      lineHeight: getLineHeight(settings, step, fontSize),
+      letterSpacing: toDimension(fontSize * letterSpacingEm, settings.unit),
+    });
+  }
+  return steps;
+};
+
+export type TypeScaleOutput =
+  | { type: "dimension" }
+  | {
+      type: "typography";
+      /** font family and weight are aliased when token is picked */
+      fontFamily: RawTypographyValue["fontFamily"];
+      fontWeight: RawTypographyValue["fontWeight"];
+    };
+
+/**
+ * Group with font size dimension or typography composite per step
+ */
+export const createTypeScaleNodes = (
+  group: TreeNode<GroupMeta>,
+  steps: TypeScaleStep[],
+  output: TypeScaleOutput,
+): TreeNode<TreeNodeMeta>[] => {
+  const nodes: TreeNode<TreeNodeMeta>[] = [
+    { ...group, meta: { ...group.meta, type: output.type } },
+  ];
+  let index: null | string = null;
+  for (const step of steps) {
+    index = generateKeyBetween(index, null);
+    nodes.push({
+      nodeId: crypto.randomUUID(),
+      parentId: group.nodeId,
+      index,
+      meta:
+        output.type === "dimension"
+          ? {
+              nodeType: "token",
+              name: step.name,
+              type: "dimension",
+              value: step.fontSize,
+            }
+          : {
+              nodeType: "token",
+              name: step.name,
+              type: "typography",
+              value: {
+                fontFamily: output.fontFamily,
+                fontSize: step.fontSize,
+                fontWeight: output.fontWeight,
+                letterSpacing: step.letterSpacing,
+                lineHeight: step.lineHeight,
+              },
+            },
+    });
+  }
+  return nodes;
+};
@@ -0,0 +1,175 @@
+import { test, expect, describe } from "vitest";
+import { generateTypeScriptModule } from "./typescript";
+import { parseDesignTokens } from "./tokens";
+import { parseTokenResolver } from "./resolver";
+import type { TreeNode } from "./store";
+import type { TreeNodeMeta } from "./state.svelte";
+
+const nodesToMap = (nodes: TreeNode<TreeNodeMeta>[]) => {
+  const map = new Map<string, TreeNode<TreeNodeMeta>>();
+  for (const node of nodes) {
+    map.set(node.nodeId, node);
+  }
+  return map;
+};
+
+const parseExampleTokens = () => {
+  const parsed = parseDesignTokens({
+    color: {
+      $type: "color",
+      red: {
+        500: { $value: { colorSpace: "srgb", components: [1, 0, 0] } },
+      },
+      primary: { $value: "{color.red.500}" },
+    },
+    "font-size": {
+      $type: "dimension",
+      body: { $value: { value: 16, unit: "px" } },
+    },
+  });
+  return nodesToMap(parsed.nodes);
+};
+
+describe("generateTypeScriptModule", () => {
+  test("generates empty module for empty nodes", () => {
+    expect(generateTypeScriptModule(new Map())).toBe(
+      [
+        "export const tokens = {",
+        "} as const;",
+        "",
+        "export type Tokens = typeof tokens;",
+      ].join("\n"),
+    );
+  });
+
+  test("generates nested objects with css variable references", () => {
+    expect(generateTypeScriptModule(parseExampleTokens())).toBe(
+      [
+        "export const tokens = {",
+        "  color: {",
+        "    red: {",
+        '      "500": "var(--color-red-500)",',
+        "    },",
+        '    primary: "var(--color-primary)",',
+        "  },",
+        '  "font-size": {',
+        '    body: "var(--font-size-body)",',
+        "  },",
+        "} as const;",
+        "",
+        "export type Tokens = typeof tokens;",
+      ].join("\n"),
+    );
+  });
+
+  test("generates resolved css values", () => {
+    const output = generateTypeScriptModule(parseExampleTokens(), {
+      values: "resolved",
+    });
+    expect(output).toContain('"500": "rgb(100% 0% 0%)",');
+    expect(output).toContain('primary: "rgb(100% 0% 0%)",');
+    expect(output).toContain('body: "16px",');
+  });
+
+  test("includes tokens inherited through group $extends", () => {
+    const parsed = parseDesignTokens({
+      button: {
+        base: {
+          padding: { $type: "number", $value: 8 },
+          radius: { $type: "number", $value: 4 },
+        },
+        large: {
+          $extends: "{button.base}",
+          padding: { $type: "number", $value: 16 },
+        },
+      },
+    });
+    const nodes = nodesToMap(parsed.nodes);
+    expect(generateTypeScriptModule(nodes)).toContain(
+      [
+        "    large: {",
+        '      padding: "var(--button-large-padding)",',
+        '      radius: "var(--button-large-radius)",',
+        "    },",
+      ].join("\n"),
+    );
+    const resolved = generateTypeScriptModule(nodes, { values: "resolved" });
+    expect(resolved).toContain(
+      ["    large: {", '      padding: "16",', '      radius: "4",'].join("\n"),
+    );
+  });
+
+  test("generates flat token path union", () => {
+    const output = generateTypeScriptModule(parseExampleTokens(), {
+      tokenPathType: true,
+    });
+    expect(output).toContain(
+      [
+        "export type TokenPath =",
+        '  | "color.red.500"',
+        '  | "color.primary"',
+        '  | "font-size.body";',
+      ].join("\n"),
+    );
+  });
+
+  test("resolves values with default modifier context", async () => {
+    const result = await parseTokenResolver({
+      version: "2025.10",
+      resolutionOrder: [
+        {
+          type: "set",
+          name: "Base",
+          sources: [
+            {
+              color: {
+                $type: "color",
+                white: {
+                  $value: { colorSpace: "srgb", components: [1, 1, 1] },
+                },
+                black: {
+                  $value: { colorSpace: "srgb", components: [0, 0, 0] },
+                },
+              },
+            },
+          ],
+        },
+        {
+          type: "modifier",
+          name: "Theme",
+          default: "light",
+          contexts: {
+            light: [{ color: { surface: { $value: "{color.white}" } } }],
+            dark: [
+              {
+                color: {
+                  surface: { $value: "{color.black}" },
+                  overlay: { $value: "{color.black}" },
+                },
+              },
+            ],
+          },
+        },
+      ],
+    });
+    expect(result.errors).toHaveLength(0);
+    const nodes = nodesToMap(result.nodes);
+    expect(generateTypeScriptModule(nodes, { values: "resolved" })).toBe(
+      [
+        "export const tokens = {",
+        "  color: {",
+        '    white: "rgb(100% 100% 100%)",',
+        '    black: "rgb(0% 0% 0%)",',
+        '    surface: "rgb(100% 100% 100%)",',
+        '    overlay: "rgb(0% 0% 0%)",',
+        "  },",
+        "} as const;",
+        "",
+        "export type Tokens = typeof tokens;",
+      ].join("\n"),
+    );
+    expect(generateTypeScriptModule(nodes)).toContain(
+      'surface: "var(--color-surface)",',
+    );
+  });
+});
@@ -0,0 +1,214 @@
+import type { TreeNode } from "./store";
+import { resolveGroupExtends, type TreeNodeMeta } from "./state.svelte";
+import type { Value } from "./schema";
+import { serializeColor } from "./color";
+import {
+  buildChildrenByParent,
+  getModifiers,
+  toBorderValue,
+  toCubicBezierValue,
+  toDimensionValue,
+  toDurationValue,
+  toFontFamilyValue,
+  toGradientValue,
+  toShadowValue,
+  toTransitionValue,
+  toVariableName,
+  visitTokens,
+} from "./css-variables";
+import { resolveTokenSet, resolveTokenValueInSet } from "./resolver";
+
+export type TypeScriptModuleOptions = {
+  /** reference css variables or inline resolved css values */
+  values?: "variables" | "resolved";
+  /** add union of dot separated token paths */
+  tokenPathType?: boolean;
+};
+
+// map keeps tree order of numeric keys unlike object
+type TokenObject = Map<string, string | TokenObject>;
+
+const toCssValue = (
+  value: Value,
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+): string => {
+  switch (value.type) {
+    case "color":
+      return serializeColor(value.value);
+    case "dimension":
+      return toDimensionValue(value.value);
+    case "duration":
+      return toDurationValue(value.value);
+    case "cubicBezier":
+      return toCubicBezierValue(value.value);
+    case "number":
+    case "fontWeight":
+      return `${value.value}`;
+    case "fontFamily":
+      return toFontFamilyValue(value.value);
+    case "shadow":
+      return toShadowValue(value.value, nodes);
+    case "gradient":
+      return toGradientValue(value.value, nodes);
+    case "border":
+      return toBorderValue(value.value, nodes);
+    case "transition":
+      return toTransitionValue(value.value, nodes);
+    case "strokeStyle":
+      return typeof value.value === "string"
+        ? value.value
+        : value.value.dashArray.map(toDimensionValue).join(", ");
+    case "typography": {
+      const { fontWeight, fontSize, lineHeight, fontFamily } = value.value;
+      return `${fontWeight} ${toDimensionValue(fontSize)}/${lineHeight} ${toFontFamilyValue(fontFamily)}`;
+    }
+    default:
+      value satisfies never;
+      throw Error("Unknown token type");
+  }
+};
+
+const getResolverId = (
+  node: TreeNode<TreeNodeMeta>,
+  nodes: Map<string, TreeNode<TreeNodeMeta>>,
+) => {
+  let current: undefined | TreeNode<TreeNodeMeta> = node;
+  while (current) {
+    if (current.meta.nodeType === "resolver") {
+      return current.nodeId;
+    }
+    current = current.parentId ? nodes.get(current.parentId) : undefined;
+  }
+};
+
+const identifierRegex = /^[A-Za-z_$][\w$]*$/;
+
+const toPropertyKey = (key: string) => {
+  return identifierRegex.test(key) ? key : JSON.stringify(key);
+};
+
+const printObject = (object: TokenObject, indent: string): string[] => {
+  const lines: string[] = [];
+  for (const [key, value] of object) {
+    if (typeof value === "string") {
+      lines.push(`${indent}${toPropertyKey(key)}: ${JSON.stringify(value)},`);
+    } else {
+      lines.push(`${indent}${toPropertyKey(key)}: {`);
+      lines.push(...printObject(value, `${indent}  `));
+      lines.push(`${indent}},`);
+    }
+  }
+  return lines;
+};
+
+/**
+ * Generate typescript module with nested token constants,
+ * names and traversal match css variables output
+ */
+export const generateTypeScriptModule = (
+  treeNodes: Map<string, TreeNode<TreeNodeMeta>>,
+  options: TypeScriptModuleOptions = {},
+): string => {
+  // tokens inherited through group $extends are exported like own ones
+  const nodes = resolveGroupExtends(treeNodes);
+  const { values = "variables", tokenPathType = false } = options;
+  const childrenByParent = buildChildrenByParent(nodes);
+  const tokens: TokenObject = new Map();
+  const tokenPaths = new Set<string>();
+  const tokenSets = new Map<
+    undefined | string,
+    ReturnType<typeof resolveTokenSet>
+  >();
+
+  const getValue = (node: TreeNode<TreeNodeMeta>, path: string[]) => {
+    const variable = toVariableName(path);
+    if (values === "variables") {
+      // dash array is the only variable generated for stroke style object
+      if (
+        node.meta.nodeType === "token" &&
+        node.meta.type === "strokeStyle" &&
+        typeof node.meta.value === "object" &&
+        "dashArray" in node.meta.value
+      ) {
+        return `var(${variable}-dash-array)`;
+      }
+      return `var(${variable})`;
+    }
+    const resolverId = getResolverId(node, nodes);
+    let tokenSet = tokenSets.get(resolverId);
+    if (!tokenSet) {
+      // resolved values use default context of every modifier
+      tokenSet = resolveTokenSet(nodes, resolverId);
+      tokenSets.set(resolverId, tokenSet);
+    }
+    try {
+      return toCssValue(resolveTokenValueInSet(node, nodes, tokenSet), nodes);
+    } catch {
+      // keep broken aliases as variables
+      return `var(${variable})`;
+    }
+  };
+
+  const addToken = (
+    node: TreeNode<TreeNodeMeta>,
+    path: string[],
+    override: boolean,
+  ) => {
+    const key = path.join(".");
+    if (tokenPaths.has(key) && !override) {
+      return;
+    }
+    tokenPaths.add(key);
+    let object = tokens;
+    for (const name of path.slice(0, -1)) {
+      const child = object.get(name);
+      if (typeof child === "object") {
+        object = child;
+      } else {
+        const group: TokenObject = new Map();
+        object.set(name, group);
+        object = group;
+      }
+    }
+    object.set(path[path.length - 1], getValue(node, path));
+  };
+
+  for (const node of childrenByParent.get(undefined) ?? []) {
+    visitTokens(node, [], childrenByParent, (token, path) => {
+      addToken(token, path, true);
+    });
+  }
+  // default context overrides sets while other contexts only add missing tokens
+  for (const modifier of getModifiers(childrenByParent)) {
+    if (modifier.meta.nodeType !== "modifier") {
+      continue;
+    }
+    for (const context of childrenByParent.get(modifier.nodeId) ?? []) {
+      const isDefault = context.meta.name === modifier.meta.default;
+      visitTokens(context, [], childrenByParent, (token, path) => {
+        addToken(token, path, isDefault);
+      });
+    }
+  }
+
+  const lines: string[] = [];
+  lines.push("export const tokens = {");
+  lines.push(...printObject(tokens, "  "));
+  lines.push("} as const;");
+  lines.push("");
+  lines.push("export type Tokens = typeof tokens;");
+  if (tokenPathType) {
+    lines.push("");
+    if (tokenPaths.size === 0) {
+      lines.push("export type TokenPath = never;");
+    } else {
+      lines.push("export type TokenPath =");
+      const paths = Array.from(tokenPaths);
+      for (let index = 0; index < paths.length; index += 1) {
+        const end = index === paths.length - 1 ? ";" : "";
+        lines.push(`  | ${JSON.stringify(paths[index])}${end}`);
+      }
+    }
+  }
+  return lines.join("\n");
+};
@@ -73,14 +73,20 @@ export const getDataFromUrl = async (): Promise<unknown> => {
   }
 };
 
-export const setDataInUrl = async (data: unknown): Promise<void> => {
-  try {
-    const compressed = await compressData(data);
-    const params = new URLSearchParams(window.location.search);
-    params.set("data", compressed);
-    const newUrl = `${window.location.pathname}?${params.toString()}`;
-    window.history.replaceState(null, "", newUrl);
-  } catch (error) {
-    console.error("Failed to compress data for URL:", error);
-  }
+/**
+ * Link with snapshot of data, opened as new project
+ */
+export const createShareUrl = async (data: unknown): Promise<string> => {
+  const compressed = await compressData(data);
+  const params = new URLSearchParams(window.location.search);
+  params.set("data", compressed);
+  return `${window.location.origin}${window.location.pathname}?${params.toString()}`;
+};
+
+// snapshot is already stored as project, avoid importing it again on reload
+export const removeDataFromUrl = () => {
+  const params = new URLSearchParams(window.location.search);
+  params.delete("data");
+  const search = params.size > 0 ? `?${params.toString()}` : "";
+  window.history.replaceState(null, "", `${window.location.pathname}${search}`);
 };
@@ -0,0 +1,51 @@
+import { test, expect, describe } from "vitest";
+import { crc32, createZip } from "./zip";
+
+const decoder = new TextDecoder();
+
+describe("crc32", () => {
+  test("computes standard checksum", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe("createZip", () => {
+  test("creates empty archive", () => {
+    const zip = createZip({});
+    expect(zip).toHaveLength(22);
+    expect(new DataView(zip.buffer).getUint32(0, true)).toBe(0x06054b50);
+  });
+
+  test("stores files with local headers and central directory", () => {
+    const zip = createZip({
+      "a.tokens.json": "{}",
+      "theme/dark.tokens.json": '{"color":{}}',
+    });
+    const view = new DataView(zip.buffer);
+    // first local header
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(14, true)).toBe(
+      crc32(new TextEncoder().encode("{}")),
+    );
+    expect(view.getUint32(18, true)).toBe(2);
+    expect(decoder.decode(zip.slice(30, 43))).toBe("a.tokens.json");
+    expect(decoder.decode(zip.slice(43, 45))).toBe("{}");
+    // second local header follows first file data
+    expect(view.getUint32(45, true)).toBe(0x04034b50);
+    // end of central directory
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralOffset = view.getUint32(end + 16, true);
+    const centralSize = view.getUint32(end + 12, true);
+    expect(centralOffset + centralSize).toBe(end);
+    // second central entry points to second local header
+    const secondEntry = centralOffset + 46 + "a.tokens.json".length;
+    expect(view.getUint32(secondEntry, true)).toBe(0x02014b50);
+    expect(view.getUint32(secondEntry + 42, true)).toBe(45);
+    expect(
+      decoder.decode(zip.slice(secondEntry + 46, secondEntry + 46 + 22)),
+    ).toBe("theme/dark.tokens.json");
+  });
+});